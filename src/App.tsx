@@ -6,8 +6,24 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { DashboardLayout } from "@/components/layout/DashboardLayout";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import Categories from "./pages/Categories";
+import ProductLabels from "./pages/ProductLabels";
 import Orders from "./pages/Orders";
+import OrderDetail from "./pages/OrderDetail";
+import OrderDocument from "./pages/OrderDocument";
 import LowStock from "./pages/LowStock";
+import Returns from "./pages/Returns";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Suppliers from "./pages/Suppliers";
+import Locations from "./pages/Locations";
+import Transfers from "./pages/Transfers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
+import Serials from "./pages/Serials";
+import Stocktakes from "./pages/Stocktakes";
+import StocktakeDetail from "./pages/StocktakeDetail";
+import InventoryValuation from "./pages/InventoryValuation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -29,16 +45,89 @@ const App = () => (
               <Products />
             </DashboardLayout>
           } />
+          <Route path="/products/labels" element={<ProductLabels />} />
+          <Route path="/categories" element={
+            <DashboardLayout>
+              <Categories />
+            </DashboardLayout>
+          } />
           <Route path="/orders" element={
             <DashboardLayout>
               <Orders />
             </DashboardLayout>
           } />
+          <Route path="/orders/:id" element={
+            <DashboardLayout>
+              <OrderDetail />
+            </DashboardLayout>
+          } />
+          <Route path="/orders/:id/invoice" element={<OrderDocument kind="invoice" />} />
+          <Route path="/orders/:id/packing-slip" element={<OrderDocument kind="packing-slip" />} />
           <Route path="/low-stock" element={
             <DashboardLayout>
               <LowStock />
             </DashboardLayout>
           } />
+          <Route path="/customers" element={
+            <DashboardLayout>
+              <Customers />
+            </DashboardLayout>
+          } />
+          <Route path="/customers/:id" element={
+            <DashboardLayout>
+              <CustomerDetail />
+            </DashboardLayout>
+          } />
+          <Route path="/suppliers" element={
+            <DashboardLayout>
+              <Suppliers />
+            </DashboardLayout>
+          } />
+          <Route path="/locations" element={
+            <DashboardLayout>
+              <Locations />
+            </DashboardLayout>
+          } />
+          <Route path="/transfers" element={
+            <DashboardLayout>
+              <Transfers />
+            </DashboardLayout>
+          } />
+          <Route path="/purchase-orders" element={
+            <DashboardLayout>
+              <PurchaseOrders />
+            </DashboardLayout>
+          } />
+          <Route path="/purchase-orders/:id" element={
+            <DashboardLayout>
+              <PurchaseOrderDetail />
+            </DashboardLayout>
+          } />
+          <Route path="/returns" element={
+            <DashboardLayout>
+              <Returns />
+            </DashboardLayout>
+          } />
+          <Route path="/serials" element={
+            <DashboardLayout>
+              <Serials />
+            </DashboardLayout>
+          } />
+          <Route path="/stocktakes" element={
+            <DashboardLayout>
+              <Stocktakes />
+            </DashboardLayout>
+          } />
+          <Route path="/stocktakes/:id" element={
+            <DashboardLayout>
+              <StocktakeDetail />
+            </DashboardLayout>
+          } />
+          <Route path="/inventory-valuation" element={
+            <DashboardLayout>
+              <InventoryValuation />
+            </DashboardLayout>
+          } />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,55 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { categoryTree, Category } from "@/services/api";
+
+// Radix Select cannot use an empty string as an item value
+const EMPTY = "__none";
+
+interface CategorySelectProps {
+  categories: Category[];
+  // Empty string when nothing is selected
+  value: string;
+  onValueChange: (value: string) => void;
+  // Label for the empty choice, e.g. "All categories" or "No category"
+  emptyLabel: string;
+  // Categories that cannot be chosen, e.g. a category and its children when picking its parent
+  excludeIds?: Set<string>;
+  id?: string;
+  className?: string;
+}
+
+export function CategorySelect({
+  categories,
+  value,
+  onValueChange,
+  emptyLabel,
+  excludeIds,
+  id,
+  className,
+}: CategorySelectProps) {
+  return (
+    <Select
+      value={value || EMPTY}
+      onValueChange={(selected) => onValueChange(selected === EMPTY ? "" : selected)}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={emptyLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={EMPTY}>{emptyLabel}</SelectItem>
+        {categoryTree(categories)
+          .filter(({ category }) => !excludeIds?.has(category.id))
+          .map(({ category, depth }) => (
+            <SelectItem key={category.id} value={category.id}>
+              <span style={{ paddingLeft: `${depth * 0.75}rem` }}>{category.name}</span>
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { dateRangePresets, useDateRangeParams } from "@/hooks/use-date-range-params";
+import { cn } from "@/lib/utils";
+
+export function DateRangePicker() {
+  const { preset, range, setPreset, setCustomRange } = useDateRangeParams();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const label =
+    preset === "custom" && range
+      ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`
+      : "Custom";
+
+  const handleSelect = (selected: DateRange | undefined) => {
+    if (!selected?.from) return;
+    setCustomRange(selected.from, selected.to);
+    if (selected.to) setIsOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {dateRangePresets.map((option) => (
+        <Button
+          key={option.value}
+          size="sm"
+          variant={preset === option.value ? "default" : "outline"}
+          onClick={() => setPreset(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            size="sm"
+            variant={preset === "custom" ? "default" : "outline"}
+            className={cn("gap-2", preset !== "custom" && "text-muted-foreground")}
+          >
+            <CalendarIcon className="h-4 w-4" />
+            {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={range?.from}
+            selected={preset === "custom" ? range : undefined}
+            onSelect={handleSelect}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+  subWeeks,
+  type Interval,
+} from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { countsAsSale, DateRangeFilter, OrderWithProducts } from "@/services/api";
+
+type Granularity = "daily" | "weekly" | "monthly";
+
+interface SalesBucket {
+  label: string;
+  revenue: number;
+  orders: number;
+}
+
+const chartConfig = {
+  revenue: {
+    label: "Revenue",
+    color: "hsl(var(--primary))",
+  },
+  orders: {
+    label: "Orders",
+    color: "hsl(var(--success))",
+  },
+} satisfies ChartConfig;
+
+// How far back each granularity looks without a date range, and how buckets are keyed and labelled
+const granularityOptions = {
+  daily: {
+    range: (now: Date) => ({ start: subDays(startOfDay(now), 29), end: now }),
+    buckets: (interval: Interval) => eachDayOfInterval(interval),
+    bucketStart: (date: Date) => startOfDay(date),
+    label: (date: Date) => format(date, "MMM d"),
+  },
+  weekly: {
+    range: (now: Date) => ({ start: subWeeks(startOfWeek(now), 11), end: now }),
+    buckets: (interval: Interval) => eachWeekOfInterval(interval),
+    bucketStart: (date: Date) => startOfWeek(date),
+    label: (date: Date) => `Wk of ${format(date, "MMM d")}`,
+  },
+  monthly: {
+    range: (now: Date) => ({ start: subMonths(startOfMonth(now), 11), end: now }),
+    buckets: (interval: Interval) => eachMonthOfInterval(interval),
+    bucketStart: (date: Date) => startOfMonth(date),
+    label: (date: Date) => format(date, "MMM yyyy"),
+  },
+};
+
+// The selected range; all time keeps each granularity's own lookback so a
+// long order history does not turn into thousands of bars
+function chartInterval(granularity: Granularity, range?: DateRangeFilter): Interval {
+  const options = granularityOptions[granularity];
+  if (range) return { start: options.bucketStart(range.from), end: range.to };
+  return options.range(new Date());
+}
+
+function buildSalesSeries(orders: OrderWithProducts[], granularity: Granularity, range?: DateRangeFilter): SalesBucket[] {
+  const options = granularityOptions[granularity];
+  // Drafts, cancellations and refunds are not sales, matching the revenue totals
+  const sales = orders.filter(countsAsSale);
+  const interval = chartInterval(granularity, range);
+  const buckets = new Map<number, SalesBucket>(
+    options.buckets(interval).map((date) => [
+      date.getTime(),
+      { label: options.label(date), revenue: 0, orders: 0 },
+    ])
+  );
+
+  for (const order of sales) {
+    if (!order.createdAt) continue;
+    const bucket = buckets.get(options.bucketStart(new Date(order.createdAt)).getTime());
+    if (!bucket) continue;
+    bucket.orders += 1;
+    bucket.revenue += typeof order.totalPrice === "number" ? order.totalPrice : 0;
+  }
+
+  return Array.from(buckets.values());
+}
+
+interface SalesChartProps {
+  orders: OrderWithProducts[];
+  // The dashboard's date range; all time when unset
+  range?: DateRangeFilter;
+}
+
+export function SalesChart({ orders, range }: SalesChartProps) {
+  const [granularity, setGranularity] = useState<Granularity>("daily");
+  const series = useMemo(() => buildSalesSeries(orders, granularity, range), [orders, granularity, range]);
+
+  return (
+    <Card className="dashboard-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold">Sales Over Time</CardTitle>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={granularity}
+          onValueChange={(value) => value && setGranularity(value as Granularity)}
+        >
+          <ToggleGroupItem value="daily">Daily</ToggleGroupItem>
+          <ToggleGroupItem value="weekly">Weekly</ToggleGroupItem>
+          <ToggleGroupItem value="monthly">Monthly</ToggleGroupItem>
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+          <ComposedChart data={series} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+            <YAxis
+              yAxisId="revenue"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => `$${value}`}
+            />
+            <YAxis yAxisId="orders" orientation="right" tickLine={false} axisLine={false} allowDecimals={false} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {chartConfig[name as keyof typeof chartConfig]?.label}
+                      </span>
+                      <span className="font-mono font-medium">
+                        {name === "revenue" ? `$${Number(value).toFixed(2)}` : value}
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar yAxisId="orders" dataKey="orders" fill="var(--color-orders)" radius={[4, 4, 0, 0]} />
+            <Line yAxisId="revenue" dataKey="revenue" type="monotone" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,13 +2,24 @@ import { useState } from "react";
 import { 
   LayoutDashboard, 
   Package, 
+  FolderTree,
   ShoppingCart, 
   AlertTriangle, 
+  Users,
+  Truck,
+  Warehouse,
+  ArrowLeftRight,
+  ClipboardList,
+  ClipboardCheck,
+  Wallet,
+  Undo2,
+  Hash,
   Menu,
   X 
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { CurrentUserField } from "./CurrentUserField";
 import { cn } from "@/lib/utils";
 
 const navigationItems = [
@@ -22,16 +33,66 @@ const navigationItems = [
     url: "/products",
     icon: Package,
   },
+  {
+    title: "Categories",
+    url: "/categories",
+    icon: FolderTree,
+  },
   {
     title: "Orders",
     url: "/orders",
     icon: ShoppingCart,
   },
+  {
+    title: "Customers",
+    url: "/customers",
+    icon: Users,
+  },
+  {
+    title: "Suppliers",
+    url: "/suppliers",
+    icon: Truck,
+  },
+  {
+    title: "Locations",
+    url: "/locations",
+    icon: Warehouse,
+  },
+  {
+    title: "Transfers",
+    url: "/transfers",
+    icon: ArrowLeftRight,
+  },
+  {
+    title: "Purchase Orders",
+    url: "/purchase-orders",
+    icon: ClipboardList,
+  },
   {
     title: "Low Stock",
     url: "/low-stock",
     icon: AlertTriangle,
   },
+  {
+    title: "Stocktakes",
+    url: "/stocktakes",
+    icon: ClipboardCheck,
+  },
+  {
+    title: "Valuation",
+    url: "/inventory-valuation",
+    icon: Wallet,
+  },
+  {
+    title: "Returns",
+    url: "/returns",
+    icon: Undo2,
+  },
+  {
+    title: "Serial Numbers",
+    url: "/serials",
+    icon: Hash,
+  },
 ];
 
 interface AppSidebarProps {
@@ -102,7 +163,8 @@ export function AppSidebar({ className }: AppSidebarProps) {
       </nav>
 
       {/* Footer */}
-      <div className="p-4 border-t border-sidebar-border">
+      <div className="p-4 border-t border-sidebar-border space-y-3">
+        {!isCollapsed && <CurrentUserField />}
         <div className={cn(
           "text-xs text-sidebar-foreground/60 text-center",
           isCollapsed && "sr-only"
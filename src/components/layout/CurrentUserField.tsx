@@ -0,0 +1,29 @@
+import { useState } from "react";
+import { UserRound } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getCurrentUser, setCurrentUser } from "@/lib/current-user";
+
+// The name stock changes made from this browser are recorded against
+export function CurrentUserField() {
+  const [name, setName] = useState(getCurrentUser);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="current-user" className="flex items-center gap-1 text-xs text-sidebar-foreground/60">
+        <UserRound className="h-3 w-3" />
+        Your name
+      </Label>
+      <Input
+        id="current-user"
+        value={name}
+        onChange={(e) => {
+          setName(e.target.value);
+          setCurrentUser(e.target.value);
+        }}
+        placeholder="Shown in stock history"
+        className="h-8 text-sm"
+      />
+    </div>
+  );
+}
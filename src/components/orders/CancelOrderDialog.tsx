@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  orderApi,
+  remainingQuantity,
+  OrderTransitionError,
+  OrderWithProducts,
+} from "@/services/api";
+import { SerialPicker } from "@/components/serials/SerialPicker";
+import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
+
+interface CancelOrderDialogProps {
+  order: OrderWithProducts | null;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: (order: OrderWithProducts) => void;
+}
+
+export function CancelOrderDialog({ order, onOpenChange, onCancelled }: CancelOrderDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [serials, setSerials] = useState<Record<string, string[]>>({});
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Default to cancelling every remaining unit
+  useEffect(() => {
+    if (order) {
+      setQuantities(Object.fromEntries(order.items.map(item => [item.productId, remainingQuantity(item)])));
+      setSerials(Object.fromEntries(order.items.map(item => [item.productId, item.serials || []])));
+      setReason("");
+    }
+  }, [order]);
+
+  const cancelItems = order
+    ? order.items
+        .map(item => ({
+          productId: item.productId,
+          quantity: quantities[item.productId] || 0,
+          serials: item.serials?.length ? serials[item.productId] : undefined,
+        }))
+        .filter(item => item.quantity > 0)
+    : [];
+  const isFullCancellation = !!order && order.items.every(
+    item => (quantities[item.productId] || 0) === remainingQuantity(item)
+  );
+  const refundTotal = order
+    ? order.items.reduce((total, item) => total + item.price * (quantities[item.productId] || 0), 0)
+    : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a reason for the cancellation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (cancelItems.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one unit to cancel.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await orderApi.cancel(order, {
+        reason: reason.trim(),
+        items: isFullCancellation ? undefined : cancelItems,
+      });
+      toast({
+        title: "Success",
+        description: isFullCancellation
+          ? `Order #${order.id?.slice(-8)} cancelled and items returned to stock.`
+          : `Cancelled items returned to stock.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      onCancelled(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to cancel order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cancel Order #{order?.id?.slice(-8)}</DialogTitle>
+          <DialogDescription>
+            Cancelled units are returned to stock. Reduce a quantity to cancel only part of a line.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-3">
+            {order?.items.map((item) => {
+              const remaining = remainingQuantity(item);
+              return (
+                <Card key={item.productId} className="p-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1">
+                      <p className="font-medium">{item.productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {remaining} of {item.quantity} remaining · ${item.price.toFixed(2)} each
+                      </p>
+                    </div>
+                    {!item.serials?.length && (
+                      <div className="w-24">
+                        <Label htmlFor={`cancel-${item.productId}`} className="sr-only">
+                          Quantity to cancel
+                        </Label>
+                        <Input
+                          id={`cancel-${item.productId}`}
+                          type="number"
+                          min="0"
+                          max={remaining}
+                          value={quantities[item.productId] ?? 0}
+                          disabled={remaining === 0}
+                          onChange={(e) => setQuantities({
+                            ...quantities,
+                            [item.productId]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), remaining),
+                          })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {!!item.serials?.length && (
+                    <div className="mt-3">
+                      <SerialPicker
+                        id={`cancel-${item.productId}`}
+                        serials={item.serials}
+                        value={serials[item.productId] || []}
+                        onChange={(value) => {
+                          setSerials({ ...serials, [item.productId]: value });
+                          setQuantities({ ...quantities, [item.productId]: value.length });
+                        }}
+                      />
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason *</Label>
+            <Textarea
+              id="cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Entered wrong quantity at the counter"
+              rows={2}
+              required
+            />
+          </div>
+
+          <Card className="p-4 bg-muted/50">
+            <div className="flex justify-between items-center">
+              <span className="font-medium">
+                {isFullCancellation ? "Cancel entire order" : "Partial cancellation"}
+              </span>
+              <span className="text-lg font-bold text-destructive">
+                −${refundTotal.toFixed(2)}
+              </span>
+            </div>
+          </Card>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Keep Order
+            </Button>
+            <Button type="submit" variant="destructive" disabled={submitting || cancelItems.length === 0}>
+              Cancel {isFullCancellation ? "Order" : "Items"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  returnApi,
+  returnDispositionLabels,
+  returnableQuantities,
+  returnableSerials,
+  ReturnQuantityError,
+  ReturnStatusError,
+  OrderWithProducts,
+  ReturnDisposition,
+} from "@/services/api";
+import { SerialPicker } from "@/components/serials/SerialPicker";
+import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
+
+interface ReturnLine {
+  quantity: number;
+  disposition: ReturnDisposition;
+  serials?: string[];
+}
+
+interface CreateReturnDialogProps {
+  order: OrderWithProducts | null;
+  onOpenChange: (open: boolean) => void;
+  onReturned: () => void;
+}
+
+export function CreateReturnDialog({ order, onOpenChange, onReturned }: CreateReturnDialogProps) {
+  const [returnable, setReturnable] = useState<Record<string, number>>({});
+  const [serialsOut, setSerialsOut] = useState<Record<string, string[]>>({});
+  const [lines, setLines] = useState<Record<string, ReturnLine>>({});
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!order) return;
+
+    const fetchPreviousReturns = async () => {
+      try {
+        setLoading(true);
+        const response = await returnApi.getAll({ orderId: order.id });
+        setReturnable(returnableQuantities(order, response.data));
+        setSerialsOut(returnableSerials(order, response.data));
+        setLines(Object.fromEntries(order.items.map(item => [
+          item.productId,
+          { quantity: 0, disposition: "restock" as ReturnDisposition, serials: item.serials?.length ? [] : undefined },
+        ])));
+        setReason("");
+      } catch (error) {
+        console.error('Error fetching returns:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load previous returns for this order. Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreviousReturns();
+  }, [order, toast]);
+
+  const updateLine = (productId: string, update: Partial<ReturnLine>) => {
+    setLines({ ...lines, [productId]: { ...lines[productId], ...update } });
+  };
+
+  const refundTotal = order
+    ? order.items.reduce((total, item) => total + item.price * (lines[item.productId]?.quantity || 0), 0)
+    : 0;
+  const hasItems = Object.values(lines).some(line => line.quantity > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    if (!hasItems) {
+      toast({
+        title: "Error",
+        description: "Select at least one unit to return.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a reason for the return.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await returnApi.create(order, {
+        reason: reason.trim(),
+        items: Object.entries(lines).map(([productId, line]) => ({ productId, ...line })),
+      });
+      toast({
+        title: "Success",
+        description: `Return recorded. Refund due: $${refundTotal.toFixed(2)}.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      onReturned();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating return:', error);
+      toast({
+        title: "Error",
+        description: error instanceof ReturnQuantityError || error instanceof ReturnStatusError
+          ? error.message
+          : "Failed to record return. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items - Order #{order?.id?.slice(-8)}</DialogTitle>
+          <DialogDescription>
+            Refunds use the price each item was sold at. Only restocked units go back into stock.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-16 bg-muted rounded"></div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-3">
+              {order?.items.map((item) => {
+                const max = returnable[item.productId] || 0;
+                const line = lines[item.productId];
+                return (
+                  <Card key={item.productId} className="p-3">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                      <div className="md:col-span-2">
+                        <p className="font-medium">{item.productName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {max} returnable · ${item.price.toFixed(2)} each
+                        </p>
+                      </div>
+                      <div>
+                        <Label htmlFor={`return-qty-${item.productId}`}>Quantity</Label>
+                        <Input
+                          id={`return-qty-${item.productId}`}
+                          type="number"
+                          min="0"
+                          max={max}
+                          disabled={max === 0 || !!item.serials?.length}
+                          value={line?.quantity ?? 0}
+                          onChange={(e) => updateLine(item.productId, {
+                            quantity: Math.min(Math.max(parseInt(e.target.value) || 0, 0), max),
+                          })}
+                        />
+                      </div>
+                      <div>
+                        <Label>Disposition</Label>
+                        <Select
+                          value={line?.disposition}
+                          disabled={max === 0}
+                          onValueChange={(value) => updateLine(item.productId, { disposition: value as ReturnDisposition })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(returnDispositionLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {!!item.serials?.length && max > 0 && (
+                      <div className="mt-3">
+                        <SerialPicker
+                          id={`return-${item.productId}`}
+                          serials={serialsOut[item.productId] || []}
+                          value={line?.serials || []}
+                          onChange={(value) => updateLine(item.productId, { serials: value, quantity: value.length })}
+                        />
+                      </div>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Reason *</Label>
+              <Textarea
+                id="return-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Wrong size, faulty on arrival"
+                rows={2}
+                required
+              />
+            </div>
+
+            <Card className="p-4 bg-muted/50">
+              <div className="flex justify-between items-center">
+                <span className="text-lg font-medium">Refund:</span>
+                <span className="text-2xl font-bold text-primary">
+                  ${refundTotal.toFixed(2)}
+                </span>
+              </div>
+            </Card>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting || !hasItems}>
+                Record Return
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
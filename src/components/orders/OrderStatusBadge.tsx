@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { orderStatusLabels, OrderStatus } from "@/services/api";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<OrderStatus, string> = {
+  draft: "border-muted-foreground/40 text-muted-foreground",
+  pending: "border-yellow-500 text-yellow-700",
+  paid: "border-blue-500 text-blue-700",
+  picking: "border-indigo-500 text-indigo-700",
+  shipped: "border-purple-500 text-purple-700",
+  delivered: "border-success text-success",
+  cancelled: "border-destructive text-destructive",
+  refunded: "border-orange-500 text-orange-700",
+};
+
+interface OrderStatusBadgeProps {
+  status?: OrderStatus;
+  className?: string;
+}
+
+export function OrderStatusBadge({ status = "pending", className }: OrderStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(statusStyles[status], className)}>
+      {orderStatusLabels[status]}
+    </Badge>
+  );
+}
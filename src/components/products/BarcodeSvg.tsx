@@ -0,0 +1,37 @@
+import { BarcodeFormat } from "@/services/api";
+import { encodeBarcode } from "@/lib/barcode";
+
+interface BarcodeSvgProps {
+  code: string;
+  format: BarcodeFormat;
+  className?: string;
+}
+
+// Quiet zone on each side, in modules, so scanners can find the start and end
+const QUIET_ZONE = 10;
+
+export function BarcodeSvg({ code, format, className }: BarcodeSvgProps) {
+  const modules = encodeBarcode(code, format);
+  const bars: { x: number; width: number }[] = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== "1") continue;
+    const start = i;
+    while (modules[i + 1] === "1") i++;
+    bars.push({ x: start + QUIET_ZONE, width: i - start + 1 });
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${modules.length + QUIET_ZONE * 2} 40`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={`Barcode ${code}`}
+    >
+      {bars.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={40} fill="black" />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,100 @@
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Product } from "@/services/api";
+
+export interface BundleComponentFormItem {
+  productId: string;
+  quantity: string;
+}
+
+interface BundleComponentsFieldProps {
+  // Products that may go into the kit
+  products: Product[];
+  value: BundleComponentFormItem[];
+  onChange: (value: BundleComponentFormItem[]) => void;
+}
+
+export function BundleComponentsField({ products, value, onChange }: BundleComponentsFieldProps) {
+  const update = (index: number, changes: Partial<BundleComponentFormItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addComponent = () => {
+    onChange([...value, { productId: "", quantity: "1" }]);
+  };
+
+  const removeComponent = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Kit Components</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addComponent}
+          disabled={products.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Component
+        </Button>
+      </div>
+      {value.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add components to sell this product as a kit. Its stock is then worked out from the components.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Quantities are per kit. Selling a kit takes stock from each component.
+        </p>
+      )}
+      {value.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Select value={item.productId} onValueChange={(productId) => update(index, { productId })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select product" />
+            </SelectTrigger>
+            <SelectContent>
+              {products
+                .filter(product => product.id === item.productId || !value.some(v => v.productId === product.id))
+                .map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} (Stock: {product.stock})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="1"
+            value={item.quantity}
+            onChange={(e) => update(index, { quantity: e.target.value })}
+            aria-label="Quantity per kit"
+            className="w-20"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => removeComponent(index)}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
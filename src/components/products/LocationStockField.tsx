@@ -0,0 +1,62 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StockLocation } from "@/services/api";
+
+export interface LocationStockFormItem {
+  locationId: string;
+  stock: string;
+  lowStockThreshold: string;
+}
+
+interface LocationStockFieldProps {
+  locations: StockLocation[];
+  // One item per location, in the same order
+  value: LocationStockFormItem[];
+  onChange: (value: LocationStockFormItem[]) => void;
+  // Existing products change stock through adjustments, so only thresholds are edited
+  stockReadOnly?: boolean;
+}
+
+export function LocationStockField({ locations, value, onChange, stockReadOnly = false }: LocationStockFieldProps) {
+  const update = (index: number, changes: Partial<LocationStockFormItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const total = value.reduce((sum, item) => sum + (parseInt(item.stock) || 0), 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <Label>Location</Label>
+        <Label>Stock</Label>
+        <Label>Low Stock At</Label>
+      </div>
+      {value.map((item, index) => {
+        const location = locations.find(l => l.id === item.locationId);
+        return (
+          <div key={item.locationId} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm truncate">{location?.name || "Deleted location"}</span>
+            <Input
+              type="number"
+              min="0"
+              aria-label={`Stock at ${location?.name}`}
+              value={item.stock}
+              onChange={(e) => update(index, { stock: e.target.value })}
+              placeholder="0"
+              disabled={stockReadOnly}
+            />
+            <Input
+              type="number"
+              min="0"
+              aria-label={`Low stock threshold at ${location?.name}`}
+              value={item.lowStockThreshold}
+              onChange={(e) => update(index, { lowStockThreshold: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">Total stock: {total}</p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface LotFormItem {
+  lotNumber: string;
+  receivedDate: string;
+  expiryDate: string;
+  quantity: string;
+}
+
+interface LotsFieldProps {
+  value: LotFormItem[];
+  onChange: (value: LotFormItem[]) => void;
+  // Existing products change lot quantities through adjustments and receipts,
+  // so only lot numbers and dates are edited
+  quantityReadOnly?: boolean;
+}
+
+export function LotsField({ value, onChange, quantityReadOnly = false }: LotsFieldProps) {
+  const update = (index: number, changes: Partial<LotFormItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addLot = () => {
+    onChange([
+      ...value,
+      { lotNumber: "", receivedDate: new Date().toISOString().slice(0, 10), expiryDate: "", quantity: "" },
+    ]);
+  };
+
+  const removeLot = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const total = value.reduce((sum, item) => sum + (parseInt(item.quantity) || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Lots</Label>
+        {!quantityReadOnly && (
+          <Button type="button" variant="outline" size="sm" onClick={addLot}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Lot
+          </Button>
+        )}
+      </div>
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          {quantityReadOnly
+            ? "No lots in stock. Lots are created when goods are received or adjusted in."
+            : "No lots in stock. Lots are also created when goods are received."}
+        </p>
+      )}
+      {value.map((item, index) => (
+        <Card key={index} className="p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={item.lotNumber}
+              onChange={(e) => update(index, { lotNumber: e.target.value })}
+              placeholder="Lot number"
+            />
+            <Input
+              type="number"
+              min="0"
+              value={item.quantity}
+              onChange={(e) => update(index, { quantity: e.target.value })}
+              placeholder="Qty"
+              aria-label="Quantity in lot"
+              className="w-24"
+              disabled={quantityReadOnly}
+            />
+            {!quantityReadOnly && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => removeLot(index)}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`lot-received-${index}`} className="text-xs text-muted-foreground">Received</Label>
+              <Input
+                id={`lot-received-${index}`}
+                type="date"
+                value={item.receivedDate}
+                onChange={(e) => update(index, { receivedDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`lot-expiry-${index}`} className="text-xs text-muted-foreground">Expires</Label>
+              <Input
+                id={`lot-expiry-${index}`}
+                type="date"
+                value={item.expiryDate}
+                onChange={(e) => update(index, { expiryDate: e.target.value })}
+              />
+            </div>
+          </div>
+        </Card>
+      ))}
+      {value.length > 0 && (
+        <p className="text-xs text-muted-foreground">Total stock: {total}. Orders pick the soonest-expiring lots first.</p>
+      )}
+    </div>
+  );
+}
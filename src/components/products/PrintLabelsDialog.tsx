@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Product } from "@/services/api";
+import { labelBarcode } from "@/lib/barcode";
+import { labelLayouts, LabelLayoutId } from "@/lib/label-layouts";
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PrintLabelsDialog({ open, products, onOpenChange }: PrintLabelsDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>("avery-5160");
+  const navigate = useNavigate();
+
+  // The selection is rebuilt on every render, so only reset when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setQuantities(Object.fromEntries(products.map(product => [product.id, 1])));
+    }
+  }, [open]);
+
+  const totalLabels = Object.values(quantities).reduce((total, quantity) => total + quantity, 0);
+  const layout = labelLayouts[layoutId];
+  const perPage = layout.columns * layout.rows;
+
+  const handlePreview = () => {
+    const items = products
+      .filter(product => (quantities[product.id] || 0) > 0)
+      .map(product => `${product.id}:${quantities[product.id]}`)
+      .join(",");
+    navigate(`/products/labels?layout=${layoutId}&items=${encodeURIComponent(items)}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            Labels show the product name, price and barcode. Products without a barcode use their SKU.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="label-layout">Label stock</Label>
+            <Select value={layoutId} onValueChange={(value) => setLayoutId(value as LabelLayoutId)}>
+              <SelectTrigger id="label-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(labelLayouts).map(([id, option]) => (
+                  <SelectItem key={id} value={id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            {products.map((product) => (
+              <div key={product.id} className="grid grid-cols-3 gap-3 items-center">
+                <div className="col-span-2">
+                  <p className="text-sm font-medium">{product.name}</p>
+                  {!labelBarcode(product) && (
+                    <p className="text-xs text-destructive">No barcode or SKU, printed without a barcode</p>
+                  )}
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  aria-label={`Labels for ${product.name}`}
+                  value={quantities[product.id] ?? 0}
+                  onChange={(e) => setQuantities({
+                    ...quantities,
+                    [product.id]: Math.max(parseInt(e.target.value) || 0, 0),
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {totalLabels} {totalLabels === 1 ? "label" : "labels"}
+            {perPage > 1 && ` on ${Math.ceil(totalLabels / perPage)} ${Math.ceil(totalLabels / perPage) === 1 ? "sheet" : "sheets"}`}
+          </p>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePreview} disabled={totalLabels === 0}>
+              Preview &amp; Print
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
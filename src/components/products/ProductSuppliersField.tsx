@@ -0,0 +1,126 @@
+import { Plus, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Supplier } from "@/services/api";
+import { cn } from "@/lib/utils";
+
+export interface ProductSupplierFormItem {
+  supplierId: string;
+  supplierSku: string;
+  cost: string;
+  preferred: boolean;
+}
+
+interface ProductSuppliersFieldProps {
+  suppliers: Supplier[];
+  value: ProductSupplierFormItem[];
+  onChange: (value: ProductSupplierFormItem[]) => void;
+}
+
+export function ProductSuppliersField({ suppliers, value, onChange }: ProductSuppliersFieldProps) {
+  const update = (index: number, changes: Partial<ProductSupplierFormItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Exactly one supplier is preferred at a time
+  const setPreferred = (index: number) => {
+    onChange(value.map((item, i) => ({ ...item, preferred: i === index })));
+  };
+
+  const addSupplier = () => {
+    onChange([...value, { supplierId: "", supplierSku: "", cost: "", preferred: value.length === 0 }]);
+  };
+
+  const removeSupplier = (index: number) => {
+    const remaining = value.filter((_, i) => i !== index);
+    if (remaining.length > 0 && !remaining.some(item => item.preferred)) {
+      remaining[0] = { ...remaining[0], preferred: true };
+    }
+    onChange(remaining);
+  };
+
+  const currencyOf = (supplierId: string) => suppliers.find(s => s.id === supplierId)?.currency;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Suppliers</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addSupplier}
+          disabled={suppliers.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Supplier
+        </Button>
+      </div>
+      {suppliers.length === 0 && (
+        <p className="text-xs text-muted-foreground">Add suppliers on the Suppliers page to link them here.</p>
+      )}
+      {value.map((item, index) => (
+        <Card key={index} className="p-3 space-y-2">
+          <div className="flex gap-2">
+            <Select value={item.supplierId} onValueChange={(supplierId) => update(index, { supplierId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers
+                  .filter(supplier => supplier.id === item.supplierId || !value.some(v => v.supplierId === supplier.id))
+                  .map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              title={item.preferred ? "Preferred supplier" : "Make preferred"}
+              onClick={() => setPreferred(index)}
+            >
+              <Star className={cn("h-4 w-4", item.preferred && "fill-yellow-400 text-yellow-500")} />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={item.supplierSku}
+              onChange={(e) => update(index, { supplierSku: e.target.value })}
+              placeholder="Supplier SKU"
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={item.cost}
+              onChange={(e) => update(index, { cost: e.target.value })}
+              placeholder={`Cost${currencyOf(item.supplierId) ? ` (${currencyOf(item.supplierId)})` : ""}`}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => removeSupplier(index)}
+            >
+              Remove
+            </Button>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
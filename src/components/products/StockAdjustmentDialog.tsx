@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  productApi,
+  stockAdjustmentReasons,
+  stockAt,
+  Product,
+  StockAdjustmentReason,
+  StockLocation,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
+import { cn } from "@/lib/utils";
+
+interface StockAdjustmentDialogProps {
+  product: Product | null;
+  // Once there are locations, every adjustment is made at one of them
+  locations?: StockLocation[];
+  defaultReason?: StockAdjustmentReason;
+  onOpenChange: (open: boolean) => void;
+  onAdjusted: (product: Product) => void;
+}
+
+export function StockAdjustmentDialog({
+  product,
+  locations = [],
+  defaultReason,
+  onOpenChange,
+  onAdjusted,
+}: StockAdjustmentDialogProps) {
+  const [reason, setReason] = useState<StockAdjustmentReason | "">("");
+  const [quantity, setQuantity] = useState("");
+  const [lotNumber, setLotNumber] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (product) {
+      setReason(defaultReason || "");
+      setQuantity("");
+      setLotNumber("");
+      setLocationId("");
+      setNote("");
+    }
+  }, [product, defaultReason]);
+
+  const units = parseInt(quantity) || 0;
+  const delta = reason ? units * stockAdjustmentReasons[reason].direction : 0;
+  const resultingStock = (product?.stock || 0) + delta;
+  // Lot-tracked stock is not split across locations; it is all held at the first
+  const fixedLocationId = product?.lotTracked ? locations[0]?.id : undefined;
+  const adjustedLocationId = fixedLocationId || locationId;
+  const locationStock = product && adjustedLocationId ? stockAt(product, locations, adjustedLocationId) : 0;
+  const lots = product?.lotTracked ? product.lots || [] : [];
+  const lot = lots.find(l => l.lotNumber.toLowerCase() === lotNumber.trim().toLowerCase());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!product || !reason) {
+      toast({
+        title: "Error",
+        description: "Please select a reason for the adjustment.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (units <= 0) {
+      toast({
+        title: "Error",
+        description: "Quantity must be greater than 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (locations.length > 0 && !adjustedLocationId) {
+      toast({
+        title: "Error",
+        description: "Please select the location being adjusted.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (locations.length > 0 && delta < 0 && locationStock < units) {
+      toast({
+        title: "Error",
+        description: `Cannot remove ${units} units. Only ${locationStock} at ${locations.find(l => l.id === adjustedLocationId)?.name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (product.lotTracked) {
+      if (!lotNumber.trim()) {
+        toast({
+          title: "Error",
+          description: "Please enter the lot the units belong to.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (delta < 0 && (lot?.quantity || 0) < units) {
+        toast({
+          title: "Error",
+          description: `Cannot remove ${units} units. Lot ${lotNumber.trim()} holds ${lot?.quantity || 0}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (resultingStock < 0) {
+      toast({
+        title: "Error",
+        description: `Cannot remove ${units} units. Only ${product.stock} in stock.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await productApi.adjustStock(product.id, {
+        reason,
+        quantity: units,
+        lotNumber: product.lotTracked ? lot?.lotNumber || lotNumber.trim() : undefined,
+        locationId: adjustedLocationId || undefined,
+        note: note.trim() || undefined,
+      });
+      toast({
+        title: "Success",
+        description: `Stock adjusted for ${product.name}.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      onAdjusted(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast({
+        title: "Error",
+        description: "Failed to adjust stock. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock - {product?.name}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reason">Reason *</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as StockAdjustmentReason)}>
+              <SelectTrigger id="adjustment-reason">
+                <SelectValue placeholder="Select reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(stockAdjustmentReasons).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>
+                    {option.label} ({option.direction > 0 ? "+" : "−"})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {locations.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-location">Location *</Label>
+              <Select value={adjustedLocationId} onValueChange={setLocationId} disabled={!!fixedLocationId}>
+                <SelectTrigger id="adjustment-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name} ({product ? stockAt(product, locations, location.id) : 0} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-quantity">Quantity *</Label>
+            <Input
+              id="adjustment-quantity"
+              type="number"
+              min="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="Number of units"
+              required
+            />
+          </div>
+
+          {product?.lotTracked && (
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-lot">Lot *</Label>
+              <Input
+                id="adjustment-lot"
+                list="adjustment-lots"
+                value={lotNumber}
+                onChange={(e) => setLotNumber(e.target.value)}
+                placeholder={delta > 0 ? "Existing or new lot number" : "Lot number"}
+                required
+              />
+              <datalist id="adjustment-lots">
+                {lots.map((l) => (
+                  <option key={l.lotNumber} value={l.lotNumber}>{l.quantity} in stock</option>
+                ))}
+              </datalist>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-note">Note</Label>
+            <Textarea
+              id="adjustment-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional details, e.g. delivery reference"
+              rows={2}
+            />
+          </div>
+
+          <div className="bg-muted p-3 rounded-lg space-y-1">
+            <p className="text-sm">
+              <strong>Current:</strong> {product?.stock}
+              {" → "}
+              <strong>After:</strong>{" "}
+              <span className={cn(resultingStock < 0 && "text-destructive")}>{resultingStock}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Threshold: {product?.lowStockThreshold}. Recommended: add at least {product && (product.lowStockThreshold * 2)} units
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !reason || (locations.length > 0 && !adjustedLocationId)}>
+              Adjust Stock
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  stockMovementApi,
+  locationApi,
+  Product,
+  StockLocation,
+  StockMovement,
+  StockMovementSource,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const sourceLabels: Record<StockMovementSource, string> = {
+  order: "Order",
+  restock: "Restock",
+  "manual-edit": "Manual edit",
+  adjustment: "Adjustment",
+  cancellation: "Cancellation",
+  return: "Customer return",
+  "purchase-order": "Purchase order",
+  transfer: "Transfer",
+  stocktake: "Stocktake",
+};
+
+interface StockHistoryDialogProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StockHistoryDialog({ product, onOpenChange }: StockHistoryDialogProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!product) return;
+
+    const fetchMovements = async () => {
+      try {
+        setLoading(true);
+        const [response, locationsRes] = await Promise.all([
+          stockMovementApi.getAll({ productId: product.id }),
+          locationApi.getAll(),
+        ]);
+        setLocations(locationsRes.data);
+        setMovements(
+          response.data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        );
+      } catch (error) {
+        console.error('Error fetching stock movements:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load stock history. Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMovements();
+  }, [product, toast]);
+
+  const showLocations = movements.some(movement => movement.locationId);
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History - {product?.name}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-10 bg-muted rounded"></div>
+              </div>
+            ))}
+          </div>
+        ) : movements.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No stock movements recorded for this product yet.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Reason</TableHead>
+                {showLocations && <TableHead>Location</TableHead>}
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock After</TableHead>
+                <TableHead>User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.id} className="table-row">
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(movement.createdAt), "MMM d, yyyy HH:mm")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{sourceLabels[movement.source] || movement.source}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{movement.reason}</TableCell>
+                  {showLocations && (
+                    <TableCell className="text-sm">
+                      {locations.find(location => location.id === movement.locationId)?.name || "—"}
+                    </TableCell>
+                  )}
+                  <TableCell
+                    className={cn(
+                      "text-right font-semibold",
+                      movement.delta > 0 ? "text-success" : "text-destructive"
+                    )}
+                  >
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.resultingStock}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{movement.user || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { parseVariantValues, variantCombinations } from "@/services/api";
+
+export interface VariantAxisFormItem {
+  name: string;
+  // Comma separated, e.g. "S, M, L"
+  values: string;
+}
+
+interface VariantAxesFieldProps {
+  value: VariantAxisFormItem[];
+  onChange: (value: VariantAxisFormItem[]) => void;
+  // Existing groups keep at least one axis so their variants stay attached
+  required?: boolean;
+}
+
+export function VariantAxesField({ value, onChange, required }: VariantAxesFieldProps) {
+  const update = (index: number, changes: Partial<VariantAxisFormItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addAxis = () => {
+    onChange([...value, { name: "", values: "" }]);
+  };
+
+  const removeAxis = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const combinations = variantCombinations(
+    value
+      .map(item => ({ name: item.name.trim(), values: parseVariantValues(item.values) }))
+      .filter(axis => axis.name && axis.values.length > 0)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Variant Options</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addAxis}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+      {value.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add options such as Size or Color to sell this product in variants.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {combinations.length} {combinations.length === 1 ? "variant" : "variants"}, each with its own SKU,
+          price and stock. Variants for removed values are kept.
+        </p>
+      )}
+      {value.map((item, index) => (
+        <Card key={index} className="p-3">
+          <div className="flex gap-2">
+            <Input
+              value={item.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              placeholder="Option, e.g. Size"
+              className="w-1/3"
+            />
+            <Input
+              value={item.values}
+              onChange={(e) => update(index, { values: e.target.value })}
+              placeholder="Values, e.g. S, M, L"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => removeAxis(index)}
+              disabled={required && value.length === 1}
+            >
+              Remove
+            </Button>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
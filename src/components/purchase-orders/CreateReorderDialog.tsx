@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  purchaseOrderApi,
+  preferredSupplier,
+  suggestedReorderQuantity,
+  Product,
+  PurchaseOrder,
+  Supplier,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface CreateReorderDialogProps {
+  open: boolean;
+  products: Product[];
+  suppliers: Supplier[];
+  onOrder: Record<string, number>;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (purchaseOrders: PurchaseOrder[]) => void;
+}
+
+export function CreateReorderDialog({
+  open,
+  products,
+  suppliers,
+  onOrder,
+  onOpenChange,
+  onCreated,
+}: CreateReorderDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const supplierOf = (product: Product) => {
+    const link = preferredSupplier(product);
+    const supplier = link && suppliers.find(s => s.id === link.supplierId);
+    return link && supplier ? { link, supplier } : undefined;
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setQuantities(Object.fromEntries(products.map(product => [
+      product.id,
+      suggestedReorderQuantity(product, onOrder[product.id], supplierOf(product)?.supplier),
+    ])));
+  }, [open]);
+
+  const groups = suppliers
+    .map(supplier => ({
+      supplier,
+      products: products.filter(product => supplierOf(product)?.supplier.id === supplier.id),
+    }))
+    .filter(group => group.products.length > 0);
+  const unsupplied = products.filter(product => !supplierOf(product));
+  const draftCount = groups.filter(group => group.products.some(product => (quantities[product.id] || 0) > 0)).length;
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      const purchaseOrders = await purchaseOrderApi.createReorders(
+        groups.flatMap(({ supplier, products }) => products.map(product => ({
+          productId: product.id,
+          productName: product.name,
+          supplierId: supplier.id,
+          quantity: quantities[product.id] || 0,
+          unitCost: supplierOf(product)!.link.cost,
+        })))
+      );
+      toast({
+        title: "Success",
+        description: `Created ${purchaseOrders.length} draft purchase ${purchaseOrders.length === 1 ? "order" : "orders"} for review.`,
+      });
+      onCreated(purchaseOrders);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating reorder:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create draft purchase orders. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Reorder</DialogTitle>
+          <DialogDescription>
+            Suggested quantities top stock up to twice the threshold, less anything already on order,
+            rounded up to the supplier's minimum. One draft is created per preferred supplier.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {groups.map(({ supplier, products: supplierProducts }) => {
+            const total = supplierProducts.reduce(
+              (sum, product) => sum + supplierOf(product)!.link.cost * (quantities[product.id] || 0),
+              0
+            );
+            return (
+              <Card key={supplier.id} className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold">{supplier.name}</p>
+                    {supplier.leadTimeDays !== undefined && (
+                      <p className="text-xs text-muted-foreground">Lead time {supplier.leadTimeDays} days</p>
+                    )}
+                  </div>
+                  <span className="font-semibold">
+                    {total.toFixed(2)} {supplier.currency}
+                  </span>
+                </div>
+                {supplierProducts.map((product) => {
+                  const { link } = supplierOf(product)!;
+                  return (
+                    <div key={product.id} className="grid grid-cols-3 gap-3 items-center">
+                      <div className="col-span-2">
+                        <p className="text-sm font-medium">{product.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Stock {product.stock} · Threshold {product.lowStockThreshold}
+                          {!!onOrder[product.id] && ` · ${onOrder[product.id]} on order`}
+                          {` · ${link.cost.toFixed(2)} each`}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        aria-label={`Quantity of ${product.name}`}
+                        value={quantities[product.id] ?? 0}
+                        onChange={(e) => setQuantities({
+                          ...quantities,
+                          [product.id]: Math.max(parseInt(e.target.value) || 0, 0),
+                        })}
+                      />
+                    </div>
+                  );
+                })}
+              </Card>
+            );
+          })}
+
+          {unsupplied.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Skipped, no supplier linked: {unsupplied.map(product => product.name).join(", ")}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || draftCount === 0}>
+              Create {draftCount} Draft {draftCount === 1 ? "PO" : "POs"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { purchaseOrderApi, hasVariants, isBundle, Product, PurchaseOrder, Supplier } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface PurchaseOrderFormLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const emptyLine: PurchaseOrderFormLine = { productId: "", quantity: "1", unitCost: "" };
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  // Draft being edited; a new purchase order is created when omitted
+  purchaseOrder?: PurchaseOrder | null;
+  suppliers: Supplier[];
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (purchaseOrder: PurchaseOrder) => void;
+}
+
+export function PurchaseOrderDialog({
+  open,
+  purchaseOrder,
+  suppliers,
+  products,
+  onOpenChange,
+  onSaved,
+}: PurchaseOrderDialogProps) {
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderFormLine[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(purchaseOrder?.supplierId || "");
+    setExpectedDate(purchaseOrder?.expectedDate?.slice(0, 10) || "");
+    setNotes(purchaseOrder?.notes || "");
+    setLines(purchaseOrder
+      ? purchaseOrder.lines.map(line => ({
+          productId: line.productId,
+          quantity: line.quantity.toString(),
+          unitCost: line.unitCost.toString(),
+        }))
+      : [emptyLine]);
+  }, [open, purchaseOrder]);
+
+  const currency = suppliers.find(supplier => supplier.id === supplierId)?.currency;
+
+  // Default the cost to what this supplier charges for the product
+  const supplierCost = (productId: string) =>
+    products
+      .find(product => product.id === productId)
+      ?.suppliers?.find(link => link.supplierId === supplierId)
+      ?.cost;
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderFormLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const cost = supplierCost(productId);
+    updateLine(index, { productId, unitCost: cost !== undefined ? cost.toString() : lines[index].unitCost });
+  };
+
+  const availableProducts = (currentProductId: string) => {
+    const selected = lines.map(line => line.productId).filter(id => id && id !== currentProductId);
+    // Stock is ordered per variant or component, never for groups or kits
+    return products.filter(product =>
+      !hasVariants(product) && !isBundle(product) && !selected.includes(product.id)
+    );
+  };
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.unitCost) || 0) * (parseInt(line.quantity) || 0),
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!supplierId) {
+      toast({
+        title: "Error",
+        description: "Please select a supplier.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.length === 0 || lines.some(line => !line.productId)) {
+      toast({
+        title: "Error",
+        description: "Please select a product for all lines.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some(line => !(parseInt(line.quantity) > 0) || !(parseFloat(line.unitCost) >= 0))) {
+      toast({
+        title: "Error",
+        description: "Each line needs a quantity greater than 0 and a unit cost.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const data = {
+      supplierId,
+      expectedDate: expectedDate || undefined,
+      notes: notes.trim() || undefined,
+      lines: lines.map(line => ({
+        productId: line.productId,
+        productName: products.find(product => product.id === line.productId)?.name,
+        quantity: parseInt(line.quantity),
+        receivedQuantity: 0,
+        unitCost: parseFloat(line.unitCost),
+      })),
+    };
+
+    try {
+      setSubmitting(true);
+      const response = purchaseOrder
+        ? await purchaseOrderApi.update(purchaseOrder.id, data)
+        : await purchaseOrderApi.create(data);
+      toast({
+        title: "Success",
+        description: purchaseOrder ? "Purchase order updated." : "Draft purchase order created.",
+      });
+      onSaved(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save purchase order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {purchaseOrder ? `Edit Purchase Order #${purchaseOrder.id.slice(-8)}` : "New Purchase Order"}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="po-supplier">Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger id="po-supplier">
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-expected">Expected Delivery</Label>
+              <Input
+                id="po-expected"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            {lines.map((line, index) => (
+              <Card key={index} className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                  <div className="md:col-span-2">
+                    <Label>Product</Label>
+                    <Select value={line.productId} onValueChange={(value) => selectProduct(index, value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableProducts(line.productId).map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name} (Stock: {product.stock})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`po-qty-${index}`}>Quantity</Label>
+                    <Input
+                      id={`po-qty-${index}`}
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`po-cost-${index}`}>Unit Cost{currency ? ` (${currency})` : ""}</Label>
+                    <Input
+                      id={`po-cost-${index}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    {lines.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea
+              id="po-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Delivery instructions, references"
+              rows={2}
+            />
+          </div>
+
+          <Card className="p-4 bg-muted/50">
+            <div className="flex justify-between items-center">
+              <span className="text-lg font-medium">Expected cost:</span>
+              <span className="text-2xl font-bold text-primary">
+                {total.toFixed(2)} {currency}
+              </span>
+            </div>
+          </Card>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {purchaseOrder ? "Save Changes" : "Create Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { purchaseOrderStatusLabels, PurchaseOrderStatus } from "@/services/api";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: "border-muted-foreground/40 text-muted-foreground",
+  ordered: "border-blue-500 text-blue-700",
+  "partially-received": "border-yellow-500 text-yellow-700",
+  received: "border-success text-success",
+  cancelled: "border-destructive text-destructive",
+};
+
+interface PurchaseOrderStatusBadgeProps {
+  status: PurchaseOrderStatus;
+  className?: string;
+}
+
+export function PurchaseOrderStatusBadge({ status, className }: PurchaseOrderStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(statusStyles[status], className)}>
+      {purchaseOrderStatusLabels[status]}
+    </Badge>
+  );
+}
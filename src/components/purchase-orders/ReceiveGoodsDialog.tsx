@@ -0,0 +1,372 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  purchaseOrderApi,
+  outstandingQuantity,
+  landedUnitCosts,
+  isBaseCurrency,
+  parseSerialNumbers,
+  Product,
+  PurchaseOrder,
+  StockLocation,
+  Supplier,
+} from "@/services/api";
+import { businessProfile } from "@/lib/business";
+import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
+
+interface LotEntry {
+  lotNumber: string;
+  expiryDate: string;
+}
+
+interface ReceiveGoodsDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  // Used to ask for lot details and serial numbers on tracked lines
+  products?: Product[];
+  // The order's supplier; their currency decides whether an exchange rate is needed
+  supplier?: Supplier;
+  // Once there are locations, the delivery is received into one of them
+  locations?: StockLocation[];
+  onOpenChange: (open: boolean) => void;
+  onReceived: (purchaseOrder: PurchaseOrder) => void;
+}
+
+export function ReceiveGoodsDialog({
+  purchaseOrder,
+  products = [],
+  supplier,
+  locations = [],
+  onOpenChange,
+  onReceived,
+}: ReceiveGoodsDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [lots, setLots] = useState<Record<string, LotEntry>>({});
+  const [serialText, setSerialText] = useState<Record<string, string>>({});
+  const [landedCost, setLandedCost] = useState("");
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Default to receiving everything still outstanding
+  useEffect(() => {
+    if (purchaseOrder) {
+      setQuantities(Object.fromEntries(purchaseOrder.lines.map(line => [line.productId, outstandingQuantity(line)])));
+      setLots({});
+      setSerialText({});
+      setLandedCost("");
+      setExchangeRate("");
+      setLocationId("");
+      setNote("");
+    }
+  }, [purchaseOrder]);
+
+  const isLotTracked = (productId: string) => !!products.find(product => product.id === productId)?.lotTracked;
+  const isSerialTracked = (productId: string) => !!products.find(product => product.id === productId)?.serialTracked;
+
+  // Serial-tracked lines receive one unit per serial number entered
+  const quantityOf = (productId: string) =>
+    isSerialTracked(productId) ? parseSerialNumbers(serialText[productId] || "").length : quantities[productId] || 0;
+
+  const updateLot = (productId: string, changes: Partial<LotEntry>) => {
+    setLots({ ...lots, [productId]: { lotNumber: "", expiryDate: "", ...lots[productId], ...changes } });
+  };
+
+  // Deliveries go to the first location unless another is chosen
+  const receiveLocationId = locationId || locations[0]?.id || "";
+
+  const receivedUnits = Object.keys(quantities).reduce((total, productId) => total + quantityOf(productId), 0);
+
+  const extraCost = parseFloat(landedCost) || 0;
+  const foreignCurrency = supplier && !isBaseCurrency(supplier.currency) ? supplier.currency : null;
+  const rate = foreignCurrency ? parseFloat(exchangeRate) || 0 : 1;
+  const receivedItems = Object.keys(quantities).map(productId => ({ productId, quantity: quantityOf(productId) }));
+  const landedCosts = purchaseOrder ? landedUnitCosts(purchaseOrder, receivedItems, extraCost, rate) : [];
+  const landedCostOf = (productId: string) => landedCosts[receivedItems.findIndex(item => item.productId === productId)];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchaseOrder) return;
+
+    if (receivedUnits === 0) {
+      toast({
+        title: "Error",
+        description: "Enter at least one received unit.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const overSerialized = purchaseOrder.lines.find(line =>
+      isSerialTracked(line.productId) && quantityOf(line.productId) > outstandingQuantity(line)
+    );
+    if (overSerialized) {
+      toast({
+        title: "Error",
+        description: `Only ${outstandingQuantity(overSerialized)} units of ${overSerialized.productName || "a product"} are outstanding.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (foreignCurrency && rate <= 0) {
+      toast({
+        title: "Error",
+        description: `Enter the ${foreignCurrency} exchange rate so the stock is costed in ${businessProfile.currency}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (locations.length > 0 && !receiveLocationId) {
+      toast({
+        title: "Error",
+        description: "Please select the location the goods arrived at.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Lot- and serial-tracked stock is all held at the first location
+    const trackedElsewhere = locations.length > 0 && receiveLocationId !== locations[0].id && purchaseOrder.lines.find(line =>
+      (isLotTracked(line.productId) || isSerialTracked(line.productId)) && quantityOf(line.productId) > 0
+    );
+    if (trackedElsewhere) {
+      toast({
+        title: "Error",
+        description: `${trackedElsewhere.productName || "Tracked products"} must be received at ${locations[0].name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const unnumbered = purchaseOrder.lines.find(line =>
+      isLotTracked(line.productId) && quantityOf(line.productId) > 0 && !lots[line.productId]?.lotNumber.trim()
+    );
+    if (unnumbered) {
+      toast({
+        title: "Error",
+        description: `Enter a lot number for ${unnumbered.productName || "each lot-tracked product"}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await purchaseOrderApi.receive(purchaseOrder, {
+        items: Object.keys(quantities).map(productId => (
+          isLotTracked(productId)
+            ? {
+              productId,
+              quantity: quantityOf(productId),
+              lotNumber: lots[productId]?.lotNumber.trim(),
+              expiryDate: lots[productId]?.expiryDate || null,
+            }
+            : isSerialTracked(productId)
+              ? { productId, quantity: quantityOf(productId), serials: parseSerialNumbers(serialText[productId] || "") }
+              : { productId, quantity: quantityOf(productId) }
+        )),
+        landedCost: extraCost > 0 ? extraCost : undefined,
+        exchangeRate: foreignCurrency ? rate : undefined,
+        locationId: receiveLocationId || undefined,
+        note: note.trim() || undefined,
+      });
+      toast({
+        title: "Success",
+        description: `Received ${receivedUnits} ${receivedUnits === 1 ? "unit" : "units"} into stock.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      onReceived(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error receiving goods:', error);
+      toast({
+        title: "Error",
+        description: "Failed to receive goods. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods - PO #{purchaseOrder?.id.slice(-8)}</DialogTitle>
+          <DialogDescription>
+            Received units are added to stock. Anything left stays on order until received or cancelled.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {locations.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="receive-location">Receive Into *</Label>
+              <Select value={receiveLocationId} onValueChange={setLocationId}>
+                <SelectTrigger id="receive-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {purchaseOrder?.lines.map((line) => {
+              const max = outstandingQuantity(line);
+              return (
+                <Card key={line.productId} className="p-3">
+                  <div className="grid grid-cols-3 gap-3 items-end">
+                    <div className="col-span-2">
+                      <p className="font-medium">{line.productName || line.productId}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.receivedQuantity} of {line.quantity} received · {max} outstanding
+                      </p>
+                      {(extraCost > 0 || (foreignCurrency && rate > 0)) && quantityOf(line.productId) > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Landed cost {landedCostOf(line.productId).toFixed(2)} {businessProfile.currency} per unit
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor={`receive-qty-${line.productId}`}>Receive</Label>
+                      <Input
+                        id={`receive-qty-${line.productId}`}
+                        type="number"
+                        min="0"
+                        max={max}
+                        disabled={max === 0 || isSerialTracked(line.productId)}
+                        value={quantityOf(line.productId)}
+                        onChange={(e) => setQuantities({
+                          ...quantities,
+                          [line.productId]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), max),
+                        })}
+                      />
+                    </div>
+                  </div>
+                  {isSerialTracked(line.productId) && max > 0 && (
+                    <div className="space-y-1 mt-3">
+                      <Label htmlFor={`receive-serials-${line.productId}`}>Serial Numbers *</Label>
+                      <Textarea
+                        id={`receive-serials-${line.productId}`}
+                        value={serialText[line.productId] || ""}
+                        onChange={(e) => setSerialText({ ...serialText, [line.productId]: e.target.value })}
+                        placeholder="Scan or type one serial number per line"
+                        className="font-mono"
+                        rows={3}
+                      />
+                    </div>
+                  )}
+                  {isLotTracked(line.productId) && max > 0 && (
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                      <div>
+                        <Label htmlFor={`receive-lot-${line.productId}`}>Lot Number *</Label>
+                        <Input
+                          id={`receive-lot-${line.productId}`}
+                          value={lots[line.productId]?.lotNumber || ""}
+                          onChange={(e) => updateLot(line.productId, { lotNumber: e.target.value })}
+                          placeholder="e.g. L2024-118"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`receive-expiry-${line.productId}`}>Expiry Date</Label>
+                        <Input
+                          id={`receive-expiry-${line.productId}`}
+                          type="date"
+                          value={lots[line.productId]?.expiryDate || ""}
+                          onChange={(e) => updateLot(line.productId, { expiryDate: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+
+          {foreignCurrency && (
+            <div className="space-y-2">
+              <Label htmlFor="receive-exchange-rate">Exchange Rate *</Label>
+              <Input
+                id="receive-exchange-rate"
+                type="number"
+                step="0.0001"
+                min="0"
+                value={exchangeRate}
+                onChange={(e) => setExchangeRate(e.target.value)}
+                placeholder="0.0000"
+              />
+              <p className="text-xs text-muted-foreground">
+                What 1 {foreignCurrency} is worth in {businessProfile.currency}. Order costs are in {foreignCurrency} and are converted before they are added to stock value.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="receive-landed-cost">Landed Costs</Label>
+            <Input
+              id="receive-landed-cost"
+              type="number"
+              step="0.01"
+              min="0"
+              value={landedCost}
+              onChange={(e) => setLandedCost(e.target.value)}
+              placeholder="0.00"
+            />
+            <p className="text-xs text-muted-foreground">
+              Freight, duty and other charges on this delivery in {businessProfile.currency}, shared across the received units by value.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receive-note">Note</Label>
+            <Textarea
+              id="receive-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Delivery note number, damaged cartons"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={
+              submitting || receivedUnits === 0 || (foreignCurrency !== null && rate <= 0) || (locations.length > 0 && !receiveLocationId)
+            }>
+              Receive {receivedUnits} {receivedUnits === 1 ? "Unit" : "Units"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
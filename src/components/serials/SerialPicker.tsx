@@ -0,0 +1,36 @@
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface SerialPickerProps {
+  id: string;
+  // Serial numbers that can be picked
+  serials: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+export function SerialPicker({ id, serials, value, onChange, disabled }: SerialPickerProps) {
+  const toggle = (serial: string, checked: boolean) => {
+    onChange(checked ? [...value, serial] : value.filter(s => s !== serial));
+  };
+
+  if (serials.length === 0) {
+    return <p className="text-xs text-muted-foreground">No serial numbers available.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-32 overflow-y-auto rounded-md border p-2">
+      {serials.map((serial) => (
+        <label key={serial} htmlFor={`${id}-${serial}`} className="flex items-center gap-2 text-sm font-mono">
+          <Checkbox
+            id={`${id}-${serial}`}
+            checked={value.includes(serial)}
+            disabled={disabled}
+            onCheckedChange={(checked) => toggle(serial, checked === true)}
+          />
+          {serial}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategorySelect } from "@/components/categories/CategorySelect";
+import {
+  stocktakeApi,
+  categoryDescendantIds,
+  isCountable,
+  Category,
+  Product,
+  StockLocation,
+  Stocktake,
+  Supplier,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+type StocktakeScope = "all" | "category" | "products";
+
+interface StartStocktakeDialogProps {
+  open: boolean;
+  products: Product[];
+  categories: Category[];
+  // Once there are locations, each count covers one of them
+  locations?: StockLocation[];
+  suppliers?: Supplier[];
+  onOpenChange: (open: boolean) => void;
+  onStarted: (stocktake: Stocktake) => void;
+}
+
+export function StartStocktakeDialog({
+  open,
+  products,
+  categories,
+  locations = [],
+  suppliers = [],
+  onOpenChange,
+  onStarted,
+}: StartStocktakeDialogProps) {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<StocktakeScope>("all");
+  const [categoryId, setCategoryId] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(`Count ${format(new Date(), "MMM d, yyyy")}`);
+    setScope("all");
+    setCategoryId("");
+    setLocationId("");
+    setSelectedIds([]);
+    setSearch("");
+  }, [open]);
+
+  const countable = products.filter(isCountable);
+
+  const inScope = () => {
+    if (scope === "category") {
+      if (!categoryId) return [];
+      const ids = categoryDescendantIds(categories, categoryId);
+      return countable.filter(product => product.categoryId && ids.has(product.categoryId));
+    }
+    if (scope === "products") return countable.filter(product => selectedIds.includes(product.id));
+    return countable;
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please name the count.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (locations.length > 0 && !locationId) {
+      toast({
+        title: "Error",
+        description: "Please select the location being counted.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const counted = inScope();
+    if (counted.length === 0) {
+      toast({
+        title: "Error",
+        description: "There are no products to count in this selection.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await stocktakeApi.start(name.trim(), counted, {
+        locations,
+        locationId: locationId || undefined,
+        suppliers,
+      });
+      toast({
+        title: "Success",
+        description: `Count started for ${counted.length} ${counted.length === 1 ? "product" : "products"}.`,
+      });
+      onStarted(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error starting stocktake:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the count. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const pickable = countable.filter(product =>
+    !query || product.name.toLowerCase().includes(query) || product.sku?.toLowerCase().includes(query)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Start Stocktake</DialogTitle>
+          <DialogDescription>
+            Expected stock is recorded now. Lot and serial-tracked products are corrected on their lots and serials instead.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-name">Name *</Label>
+            <Input
+              id="stocktake-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          {locations.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-location">Location *</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="stocktake-location">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Only stock at this location is expected and corrected.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-scope">Products to Count</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as StocktakeScope)}>
+              <SelectTrigger id="stocktake-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All products</SelectItem>
+                <SelectItem value="category">One category</SelectItem>
+                <SelectItem value="products">Selected products</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === "category" && (
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-category">Category</Label>
+              <CategorySelect
+                id="stocktake-category"
+                categories={categories}
+                value={categoryId}
+                onValueChange={setCategoryId}
+                emptyLabel="Select a category"
+              />
+            </div>
+          )}
+
+          {scope === "products" && (
+            <div className="space-y-2">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by name or SKU"
+                aria-label="Filter products"
+              />
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-2">
+                {pickable.map((product) => (
+                  <label key={product.id} htmlFor={`stocktake-product-${product.id}`} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`stocktake-product-${product.id}`}
+                      checked={selectedIds.includes(product.id)}
+                      onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                    />
+                    {product.name}
+                    {product.sku && <span className="text-muted-foreground font-mono">{product.sku}</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            {inScope().length} {inScope().length === 1 ? "product" : "products"} will be counted.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || (locations.length > 0 && !locationId)}>
+              Start Count
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
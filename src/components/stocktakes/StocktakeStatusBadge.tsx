@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { stocktakeStatusLabels, StocktakeStatus } from "@/services/api";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<StocktakeStatus, string> = {
+  counting: "border-blue-500 text-blue-700",
+  posted: "border-success text-success",
+  cancelled: "border-destructive text-destructive",
+};
+
+interface StocktakeStatusBadgeProps {
+  status: StocktakeStatus;
+  className?: string;
+}
+
+export function StocktakeStatusBadge({ status, className }: StocktakeStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(statusStyles[status], className)}>
+      {stocktakeStatusLabels[status]}
+    </Badge>
+  );
+}
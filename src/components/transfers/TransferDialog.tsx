@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  transferApi,
+  hasVariants,
+  isBundle,
+  stockAt,
+  Product,
+  StockLocation,
+  StockTransfer,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface TransferFormLine {
+  productId: string;
+  quantity: string;
+}
+
+const emptyLine: TransferFormLine = { productId: "", quantity: "1" };
+
+interface TransferDialogProps {
+  open: boolean;
+  locations: StockLocation[];
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (transfer: StockTransfer) => void;
+}
+
+export function TransferDialog({ open, locations, products, onOpenChange, onSaved }: TransferDialogProps) {
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<TransferFormLine[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Locations are rebuilt with the page's data, so only reset when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setFromLocationId(locations[0]?.id || "");
+    setToLocationId(locations[1]?.id || "");
+    setNotes("");
+    setLines([emptyLine]);
+  }, [open]);
+
+  const availableAtSource = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    return product && fromLocationId ? stockAt(product, locations, fromLocationId) : 0;
+  };
+
+  const updateLine = (index: number, changes: Partial<TransferFormLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Only products with stock at the source; groups and kits hold none themselves,
+  // and lots and serials are not split across locations
+  const availableProducts = (currentProductId: string) => {
+    const selected = lines.map(line => line.productId).filter(id => id && id !== currentProductId);
+    return products.filter(product =>
+      !hasVariants(product) &&
+      !isBundle(product) &&
+      !product.lotTracked &&
+      !product.serialTracked &&
+      !selected.includes(product.id) &&
+      (product.id === currentProductId || availableAtSource(product.id) > 0)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!fromLocationId || !toLocationId || fromLocationId === toLocationId) {
+      toast({
+        title: "Error",
+        description: "Please choose two different locations.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.length === 0 || lines.some(line => !line.productId)) {
+      toast({
+        title: "Error",
+        description: "Please select a product for all lines.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const short = lines.find(line =>
+      !(parseInt(line.quantity) > 0) || parseInt(line.quantity) > availableAtSource(line.productId)
+    );
+    if (short) {
+      toast({
+        title: "Error",
+        description: `Each line needs a quantity between 1 and the ${availableAtSource(short.productId)} units at the source.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await transferApi.create({
+        fromLocationId,
+        toLocationId,
+        notes: notes.trim() || undefined,
+        lines: lines.map(line => ({
+          productId: line.productId,
+          productName: products.find(product => product.id === line.productId)?.name,
+          quantity: parseInt(line.quantity),
+        })),
+      });
+      toast({
+        title: "Success",
+        description: "Draft transfer created.",
+      });
+      onSaved(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving transfer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save transfer. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Transfer</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-from">From *</Label>
+              <Select
+                value={fromLocationId}
+                onValueChange={(value) => {
+                  setFromLocationId(value);
+                  setLines([emptyLine]);
+                }}
+              >
+                <SelectTrigger id="transfer-from">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-to">To *</Label>
+              <Select value={toLocationId} onValueChange={setToLocationId}>
+                <SelectTrigger id="transfer-to">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations
+                    .filter(location => location.id !== fromLocationId)
+                    .map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            {lines.map((line, index) => (
+              <Card key={index} className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="md:col-span-2">
+                    <Label>Product</Label>
+                    <Select value={line.productId} onValueChange={(value) => updateLine(index, { productId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableProducts(line.productId).map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name} (At source: {availableAtSource(product.id)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`transfer-qty-${index}`}>Quantity</Label>
+                    <Input
+                      id={`transfer-qty-${index}`}
+                      type="number"
+                      min="1"
+                      max={line.productId ? availableAtSource(line.productId) : undefined}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    {lines.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-notes">Notes</Label>
+            <Textarea
+              id="transfer-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Carrier, reference, reason for the move"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              Create Draft
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
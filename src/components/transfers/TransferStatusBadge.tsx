@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { transferStatusLabels, TransferStatus } from "@/services/api";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<TransferStatus, string> = {
+  draft: "border-muted-foreground/40 text-muted-foreground",
+  "in-transit": "border-blue-500 text-blue-700",
+  received: "border-success text-success",
+  cancelled: "border-destructive text-destructive",
+};
+
+interface TransferStatusBadgeProps {
+  status: TransferStatus;
+  className?: string;
+}
+
+export function TransferStatusBadge({ status, className }: TransferStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn(statusStyles[status], className)}>
+      {transferStatusLabels[status]}
+    </Badge>
+  );
+}
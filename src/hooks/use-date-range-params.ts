@@ -0,0 +1,82 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+import { endOfDay, format, isValid, parseISO, startOfDay, startOfMonth, subDays } from "date-fns";
+import type { DateRangeFilter } from "@/services/api";
+
+export type DateRangePreset = "all" | "today" | "last7" | "last30" | "thisMonth" | "custom";
+
+export const dateRangePresets: { value: Exclude<DateRangePreset, "custom">; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "today", label: "Today" },
+  { value: "last7", label: "Last 7 days" },
+  { value: "last30", label: "Last 30 days" },
+  { value: "thisMonth", label: "This month" },
+];
+
+const PARAM_DATE_FORMAT = "yyyy-MM-dd";
+
+function presetRange(preset: DateRangePreset, now: Date): DateRangeFilter | undefined {
+  switch (preset) {
+    case "today":
+      return { from: startOfDay(now), to: endOfDay(now) };
+    case "last7":
+      return { from: startOfDay(subDays(now, 6)), to: endOfDay(now) };
+    case "last30":
+      return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) };
+    case "thisMonth":
+      return { from: startOfMonth(now), to: endOfDay(now) };
+    default:
+      return undefined;
+  }
+}
+
+function parseParamDate(value: string | null) {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+}
+
+/**
+ * Dashboard date range kept in the URL (`?range=last7` or `?range=custom&from=…&to=…`)
+ * so a scoped view can be shared as a link.
+ */
+export function useDateRangeParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rangeParam = searchParams.get("range") as DateRangePreset | null;
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+
+  const preset: DateRangePreset =
+    rangeParam === "custom" || dateRangePresets.some((p) => p.value === rangeParam)
+      ? (rangeParam as DateRangePreset)
+      : "all";
+
+  const range = React.useMemo(() => {
+    if (preset !== "custom") return presetRange(preset, new Date());
+    const from = parseParamDate(fromParam);
+    const to = parseParamDate(toParam) || from;
+    if (!from || !to) return undefined;
+    return { from: startOfDay(from), to: endOfDay(to) };
+  }, [preset, fromParam, toParam]);
+
+  const setPreset = (value: Exclude<DateRangePreset, "custom">) => {
+    setSearchParams((params) => {
+      params.delete("from");
+      params.delete("to");
+      if (value === "all") params.delete("range");
+      else params.set("range", value);
+      return params;
+    });
+  };
+
+  const setCustomRange = (from: Date, to?: Date) => {
+    setSearchParams((params) => {
+      params.set("range", "custom");
+      params.set("from", format(from, PARAM_DATE_FORMAT));
+      params.set("to", format(to || from, PARAM_DATE_FORMAT));
+      return params;
+    });
+  };
+
+  return { preset, range, setPreset, setCustomRange };
+}
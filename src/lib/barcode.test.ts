@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  barcodeError,
+  detectBarcodeFormat,
+  encodeBarcode,
+  findProductByCode,
+  gs1CheckDigit,
+  labelBarcode,
+} from "@/lib/barcode";
+
+describe("gs1CheckDigit", () => {
+  it("computes EAN-13 and UPC-A check digits", () => {
+    expect(gs1CheckDigit("400638133393")).toBe(1);
+    expect(gs1CheckDigit("03600029145")).toBe(2);
+  });
+
+  it("returns 0 rather than 10 when the sum is already a multiple of ten", () => {
+    expect(gs1CheckDigit("000000000000")).toBe(0);
+    expect(gs1CheckDigit("100000000003")).toBe(0);
+  });
+});
+
+describe("detectBarcodeFormat", () => {
+  it("treats 13 and 12 digit codes as retail barcodes", () => {
+    expect(detectBarcodeFormat("4006381333931")).toBe("ean13");
+    expect(detectBarcodeFormat("036000291452")).toBe("upca");
+  });
+
+  it("falls back to Code 128 for anything else", () => {
+    expect(detectBarcodeFormat("SKU-001")).toBe("code128");
+    expect(detectBarcodeFormat("12345")).toBe("code128");
+  });
+});
+
+describe("barcodeError", () => {
+  it("accepts valid codes", () => {
+    expect(barcodeError("4006381333931", "ean13")).toBeUndefined();
+    expect(barcodeError("036000291452", "upca")).toBeUndefined();
+    expect(barcodeError("SKU-001", "code128")).toBeUndefined();
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(barcodeError("4006381333932", "ean13")).toBe("EAN-13 check digit is incorrect.");
+    expect(barcodeError("036000291453", "upca")).toBe("UPC-A check digit is incorrect.");
+  });
+
+  it("rejects the wrong length or characters", () => {
+    expect(barcodeError("400638133393", "ean13")).toBe("EAN-13 barcodes have exactly 13 digits.");
+    expect(barcodeError("03600029145A", "upca")).toBe("UPC-A barcodes have exactly 12 digits.");
+    expect(barcodeError("", "code128")).toBe("Code 128 barcodes have 1 to 48 characters.");
+    expect(barcodeError("x".repeat(49), "code128")).toBe("Code 128 barcodes have 1 to 48 characters.");
+    expect(barcodeError("café", "code128")).toBe("Code 128 barcodes may only contain printable ASCII characters.");
+  });
+});
+
+describe("findProductByCode", () => {
+  const products = [
+    { id: "1", sku: "ABC-1", barcode: "4006381333931" },
+    { id: "2", sku: "4006381333931", barcode: undefined },
+    { id: "3", sku: "xyz-9", barcode: undefined },
+  ];
+
+  it("prefers a barcode match over a SKU match", () => {
+    expect(findProductByCode(products, "4006381333931")?.id).toBe("1");
+  });
+
+  it("matches SKUs ignoring case and surrounding whitespace", () => {
+    expect(findProductByCode(products, "  XYZ-9 ")?.id).toBe("3");
+  });
+
+  it("finds nothing for a blank or unknown code", () => {
+    expect(findProductByCode(products, "   ")).toBeUndefined();
+    expect(findProductByCode(products, "nope")).toBeUndefined();
+  });
+});
+
+describe("encodeBarcode", () => {
+  it("encodes EAN-13 as 95 modules with guard bars", () => {
+    const modules = encodeBarcode("4006381333931", "ean13");
+    expect(modules).toHaveLength(95);
+    expect(modules.startsWith("101")).toBe(true);
+    expect(modules.slice(45, 50)).toBe("01010");
+    expect(modules.endsWith("101")).toBe(true);
+  });
+
+  it("encodes UPC-A as EAN-13 with a leading zero", () => {
+    expect(encodeBarcode("036000291452", "upca")).toBe(encodeBarcode("0036000291452", "ean13"));
+  });
+
+  it("encodes Code 128 with start B, checksum and stop symbols", () => {
+    // Start B (104) + "A" (33) + checksum (104 + 33) % 103 = 34 + stop
+    expect(encodeBarcode("A", "code128")).toBe(
+      "11010010000" + "10100011000" + "10001011000" + "1100011101011"
+    );
+  });
+});
+
+describe("labelBarcode", () => {
+  it("uses a valid product barcode in its detected format", () => {
+    expect(labelBarcode({ sku: "ABC-1", barcode: "036000291452" })).toEqual({ code: "036000291452", format: "upca" });
+  });
+
+  it("falls back to the SKU when the barcode is invalid", () => {
+    expect(labelBarcode({ sku: "ABC-1", barcode: "4006381333932" })).toEqual({ code: "ABC-1", format: "code128" });
+  });
+
+  it("returns nothing when neither can be printed", () => {
+    expect(labelBarcode({ sku: "", barcode: undefined })).toBeUndefined();
+  });
+});
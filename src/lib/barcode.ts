@@ -0,0 +1,126 @@
+import { BarcodeFormat, Product } from "@/services/api";
+
+export const barcodeFormatLabels: Record<BarcodeFormat, string> = {
+  ean13: "EAN-13",
+  upca: "UPC-A",
+  code128: "Code 128",
+};
+
+// GS1 mod-10 check digit: weights alternate 3, 1 starting from the rightmost data digit
+export function gs1CheckDigit(data: string) {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const digit = Number(data[data.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+const hasValidCheckDigit = (code: string) =>
+  gs1CheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+
+// Numeric codes of retail length are assumed to be retail barcodes
+export function detectBarcodeFormat(code: string): BarcodeFormat {
+  if (/^\d{13}$/.test(code)) return "ean13";
+  if (/^\d{12}$/.test(code)) return "upca";
+  return "code128";
+}
+
+// Describe what is wrong with a barcode, or return undefined when it is valid
+export function barcodeError(code: string, format: BarcodeFormat): string | undefined {
+  switch (format) {
+    case "ean13":
+      if (!/^\d{13}$/.test(code)) return "EAN-13 barcodes have exactly 13 digits.";
+      if (!hasValidCheckDigit(code)) return "EAN-13 check digit is incorrect.";
+      return undefined;
+    case "upca":
+      if (!/^\d{12}$/.test(code)) return "UPC-A barcodes have exactly 12 digits.";
+      if (!hasValidCheckDigit(code)) return "UPC-A check digit is incorrect.";
+      return undefined;
+    case "code128":
+      if (code.length === 0 || code.length > 48) return "Code 128 barcodes have 1 to 48 characters.";
+      if (!/^[\x20-\x7e]+$/.test(code)) return "Code 128 barcodes may only contain printable ASCII characters.";
+      return undefined;
+  }
+}
+
+// Match a typed or scanned code against product barcodes first, then SKUs
+export function findProductByCode<T extends Pick<Product, "sku" | "barcode">>(products: T[], code: string) {
+  const value = code.trim();
+  if (!value) return undefined;
+  return (
+    products.find(product => product.barcode === value) ||
+    products.find(product => product.sku?.toLowerCase() === value.toLowerCase())
+  );
+}
+
+// Bar and space widths for Code 128 symbol values 0-106 (106 is the stop symbol)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Expand alternating bar/space widths into modules, starting with a bar
+const widthsToModules = (widths: string) =>
+  widths
+    .split("")
+    .map((width, i) => (i % 2 === 0 ? "1" : "0").repeat(Number(width)))
+    .join("");
+
+function encodeCode128(code: string) {
+  const values = code.split("").map(char => char.charCodeAt(0) - 32);
+  const checksum = values.reduce((sum, value, i) => sum + value * (i + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map(value => widthsToModules(CODE128_PATTERNS[value]))
+    .join("");
+}
+
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_G = ["0100111", "0110011", "0011011", "0100001", "0011101", "0111001", "0000101", "0010001", "0001001", "0010111"];
+const EAN_R = ["1110010", "1100110", "1101100", "1000010", "1011100", "1001110", "1010000", "1000100", "1001000", "1110100"];
+// The first digit is not drawn; it picks the L/G parity of the left half
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+function encodeEan13(code: string) {
+  const digits = code.split("").map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, i) => (parity[i] === "L" ? EAN_L : EAN_G)[digit]).join("");
+  const right = digits.slice(7).map(digit => EAN_R[digit]).join("");
+  return `101${left}01010${right}101`;
+}
+
+// Encode a valid barcode as a run of modules: "1" for a bar, "0" for a space
+export function encodeBarcode(code: string, format: BarcodeFormat) {
+  switch (format) {
+    case "ean13":
+      return encodeEan13(code);
+    case "upca":
+      // UPC-A is EAN-13 with a leading zero
+      return encodeEan13(`0${code}`);
+    case "code128":
+      return encodeCode128(code);
+  }
+}
+
+// What to print on a label: the product barcode, falling back to the SKU as Code 128
+export function labelBarcode(product: Pick<Product, "sku" | "barcode" | "barcodeFormat">) {
+  if (product.barcode) {
+    const format = product.barcodeFormat || detectBarcodeFormat(product.barcode);
+    if (!barcodeError(product.barcode, format)) return { code: product.barcode, format };
+  }
+  if (product.sku && !barcodeError(product.sku, "code128")) {
+    return { code: product.sku, format: "code128" as BarcodeFormat };
+  }
+  return undefined;
+}
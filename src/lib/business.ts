@@ -0,0 +1,11 @@
+// Details printed on invoices and packing slips, configurable per deployment
+export const businessProfile = {
+  name: import.meta.env.VITE_BUSINESS_NAME || 'Smart Inventory',
+  address: import.meta.env.VITE_BUSINESS_ADDRESS || '',
+  email: import.meta.env.VITE_BUSINESS_EMAIL || '',
+  phone: import.meta.env.VITE_BUSINESS_PHONE || '',
+  // Sales tax rate as a fraction (0.2 = 20%); product prices include tax
+  taxRate: parseFloat(import.meta.env.VITE_TAX_RATE || '0') || 0,
+  // Currency prices, costs and valuations are kept in
+  currency: (import.meta.env.VITE_BASE_CURRENCY || 'USD').toUpperCase(),
+};
@@ -0,0 +1,20 @@
+// Who is making changes from this browser. There are no accounts, so staff
+// enter their name once and stock movements are recorded against it.
+const STORAGE_KEY = 'inventory.currentUser';
+
+export const getCurrentUser = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const setCurrentUser = (name: string) => {
+  try {
+    if (name.trim()) localStorage.setItem(STORAGE_KEY, name.trim());
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private browsing can block storage; the name then lasts for this page only
+  }
+};
@@ -0,0 +1,75 @@
+// Physical label stock the label printer can target. All sizes are in millimetres.
+export interface LabelLayout {
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+export type LabelLayoutId = "avery-5160" | "avery-l7160" | "thermal-50x25" | "thermal-57x32" | "thermal-100x50";
+
+const singleLabel = (name: string, width: number, height: number): LabelLayout => ({
+  name,
+  pageWidth: width,
+  pageHeight: height,
+  columns: 1,
+  rows: 1,
+  labelWidth: width,
+  labelHeight: height,
+  marginTop: 0,
+  marginLeft: 0,
+  columnGap: 0,
+  rowGap: 0,
+});
+
+export const labelLayouts: Record<LabelLayoutId, LabelLayout> = {
+  "avery-5160": {
+    name: "Avery 5160 (Letter, 3 × 10)",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    columnGap: 3.175,
+    rowGap: 0,
+  },
+  "avery-l7160": {
+    name: "Avery L7160 (A4, 3 × 7)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  "thermal-50x25": singleLabel("Thermal 50 × 25 mm", 50, 25),
+  "thermal-57x32": singleLabel("Thermal 57 × 32 mm (shelf)", 57, 32),
+  "thermal-100x50": singleLabel("Thermal 100 × 50 mm", 100, 50),
+};
+
+export const isLabelLayoutId = (value: string | null): value is LabelLayoutId =>
+  !!value && value in labelLayouts;
+
+// Split a flat list of labels into pages of the layout's capacity
+export function paginateLabels<T>(labels: T[], layout: LabelLayout) {
+  const perPage = layout.columns * layout.rows;
+  const pages: T[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) {
+    pages.push(labels.slice(i, i + perPage));
+  }
+  return pages;
+}
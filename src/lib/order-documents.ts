@@ -0,0 +1,126 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { remainingQuantity, Address, Customer, OrderWithProducts } from "@/services/api";
+import { businessProfile } from "@/lib/business";
+
+export type OrderDocumentKind = "invoice" | "packing-slip";
+
+export const orderDocumentTitles: Record<OrderDocumentKind, string> = {
+  invoice: "Invoice",
+  "packing-slip": "Packing Slip",
+};
+
+export const orderNumber = (order: OrderWithProducts) => (order.id ? order.id.slice(-8).toUpperCase() : "");
+
+// Lines still on the order once cancelled units are taken out
+export function documentLines(order: OrderWithProducts) {
+  return order.items
+    .map((item) => ({
+      productId: item.productId,
+      productName: item.productName,
+      price: item.price,
+      quantity: remainingQuantity(item),
+      subtotal: item.price * remainingQuantity(item),
+    }))
+    .filter((line) => line.quantity > 0);
+}
+
+// A customer's address labelled for the purpose (e.g. "Billing", "Shipping"),
+// otherwise their first address
+function addressFor(customer: Customer, purpose: "billing" | "shipping") {
+  const pattern = purpose === "billing" ? /bill|invoice/i : /ship|deliver/i;
+  return customer.addresses.find((address) => address.label && pattern.test(address.label)) || customer.addresses[0];
+}
+
+const addressLines = (address?: Address) =>
+  address
+    ? [address.street, [address.city, address.postalCode].filter(Boolean).join(" "), address.country || ""].filter(Boolean)
+    : [];
+
+export interface DocumentParty {
+  heading: string;
+  lines: string[];
+}
+
+// Who the invoice is billed to and where the packing slip ships to; walk-in orders have neither
+export function documentParties(customer: Customer | null, kind: OrderDocumentKind): DocumentParty[] {
+  if (!customer) return [];
+  const shipTo = { heading: "Ship To", lines: [customer.name, ...addressLines(addressFor(customer, "shipping"))] };
+  if (kind === "packing-slip") return [shipTo];
+  const contact = [customer.email, customer.phone].filter((line): line is string => !!line);
+  return [
+    { heading: "Bill To", lines: [customer.name, ...addressLines(addressFor(customer, "billing")), ...contact] },
+    shipTo,
+  ];
+}
+
+// Prices are tax-inclusive, so tax is the portion of the total above the net amount
+export function invoiceTotals(order: OrderWithProducts) {
+  const total = documentLines(order).reduce((sum, line) => sum + line.subtotal, 0);
+  const net = total / (1 + businessProfile.taxRate);
+  return { net, tax: total - net, total };
+}
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+export function downloadOrderPdf(order: OrderWithProducts, kind: OrderDocumentKind, customer: Customer | null = null) {
+  const doc = new jsPDF();
+  const title = orderDocumentTitles[kind];
+  const lines = documentLines(order);
+
+  doc.setFontSize(18);
+  doc.text(businessProfile.name, 14, 20);
+  doc.setFontSize(9);
+  const contact = [businessProfile.address, businessProfile.email, businessProfile.phone].filter(Boolean);
+  contact.forEach((line, index) => doc.text(line, 14, 26 + index * 4.5));
+
+  doc.setFontSize(16);
+  doc.text(title, 196, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Order #${orderNumber(order)}`, 196, 27, { align: "right" });
+  if (order.createdAt) {
+    doc.text(format(new Date(order.createdAt), "MMM d, yyyy"), 196, 32, { align: "right" });
+  }
+
+  let startY = Math.max(42, 30 + contact.length * 4.5);
+
+  const parties = documentParties(customer, kind);
+  if (parties.length > 0) {
+    parties.forEach((party, column) => {
+      const x = 14 + column * 70;
+      doc.setFontSize(8);
+      doc.text(party.heading.toUpperCase(), x, startY);
+      doc.setFontSize(10);
+      party.lines.forEach((line, index) => doc.text(line, x, startY + 5 + index * 4.5));
+    });
+    startY += 10 + Math.max(...parties.map((party) => party.lines.length)) * 4.5;
+  }
+
+  if (kind === "invoice") {
+    const totals = invoiceTotals(order);
+    autoTable(doc, {
+      startY,
+      head: [["Item", "Unit Price", "Qty", "Subtotal"]],
+      body: lines.map((line) => [line.productName, money(line.price), line.quantity, money(line.subtotal)]),
+      foot: [
+        ["", "", "Net", money(totals.net)],
+        ["", "", `Tax (${(businessProfile.taxRate * 100).toFixed(1)}%)`, money(totals.tax)],
+        ["", "", "Total", money(totals.total)],
+      ],
+      columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+      showFoot: "lastPage",
+      theme: "striped",
+    });
+  } else {
+    autoTable(doc, {
+      startY,
+      head: [["Item", "Qty", "Packed"]],
+      body: lines.map((line) => [line.productName, line.quantity, ""]),
+      columnStyles: { 1: { halign: "right" }, 2: { cellWidth: 25 } },
+      theme: "grid",
+    });
+  }
+
+  doc.save(`${kind}-${orderNumber(order)}.pdf`);
+}
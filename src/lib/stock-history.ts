@@ -0,0 +1,7 @@
+// Stock changes are saved before their history entries are written, so the
+// APIs return the products whose entries failed and pages warn about them
+export const unrecordedHistoryToast = (productNames: string[]) => ({
+  title: 'Stock history not updated',
+  description: `Stock for ${productNames.join(', ')} changed, but the change could not be added to its history.`,
+  variant: 'destructive' as const,
+});
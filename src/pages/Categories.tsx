@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Plus, Pencil, Trash2, FolderTree, CornerDownRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  categoryApi,
+  productApi,
+  categoryDescendantIds,
+  categoryTree,
+  Category,
+  Product,
+} from "@/services/api";
+import { CategorySelect } from "@/components/categories/CategorySelect";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  name: "",
+  parentId: "",
+};
+
+export default function Categories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true);
+      const [categoriesRes, productsRes] = await Promise.all([
+        categoryApi.getAll(),
+        productApi.getAll(),
+      ]);
+      setCategories(categoriesRes.data);
+      setProducts(productsRes.data);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load categories. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenModal = (category?: Category, parentId = "") => {
+    if (category) {
+      setEditingCategory(category);
+      setFormData({ name: category.name, parentId: category.parentId || "" });
+    } else {
+      setEditingCategory(null);
+      setFormData({ ...emptyForm, parentId });
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingCategory(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    if (!name) {
+      toast({
+        title: "Error",
+        description: "Please enter a category name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parentId = formData.parentId || null;
+    const siblingClash = categories.some(category =>
+      category.id !== editingCategory?.id &&
+      (category.parentId || null) === parentId &&
+      category.name.toLowerCase() === name.toLowerCase()
+    );
+    if (siblingClash) {
+      toast({
+        title: "Error",
+        description: `A category named "${name}" already exists here.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (editingCategory) {
+        await categoryApi.update(editingCategory.id, { name, parentId });
+        toast({
+          title: "Success",
+          description: "Category updated successfully.",
+        });
+      } else {
+        await categoryApi.create({ name, parentId });
+        toast({
+          title: "Success",
+          description: "Category created successfully.",
+        });
+      }
+
+      handleCloseModal();
+      fetchCategories();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${editingCategory ? 'update' : 'create'} category. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (categoryId: string) => {
+    try {
+      await categoryApi.delete(categoryId);
+      toast({
+        title: "Success",
+        description: "Category deleted successfully.",
+      });
+      fetchCategories();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete category. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hasChildren = (categoryId: string) => categories.some(category => category.parentId === categoryId);
+
+  // Products in the category or any of its subcategories
+  const productCount = (categoryId: string) => {
+    const ids = categoryDescendantIds(categories, categoryId);
+    return products.filter(product => product.categoryId && ids.has(product.categoryId)).length;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Categories</h1>
+          <p className="text-muted-foreground">Organize products into nested categories</p>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Category
+        </Button>
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && handleCloseModal()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCategory ? "Edit Category" : "Add New Category"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name *</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Cables"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-parent">Parent Category</Label>
+              <CategorySelect
+                id="category-parent"
+                categories={categories}
+                value={formData.parentId}
+                onValueChange={(parentId) => setFormData({ ...formData, parentId })}
+                emptyLabel="None (top level)"
+                // A category cannot be moved inside itself
+                excludeIds={editingCategory ? categoryDescendantIds(categories, editingCategory.id) : undefined}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={handleCloseModal}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCategory ? "Update" : "Create"} Category
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Category Tree */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>All Categories</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : categories.length === 0 ? (
+            <div className="text-center py-8">
+              <FolderTree className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No categories found. Add your first category to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryTree(categories).map(({ category, depth }) => (
+                  <TableRow key={category.id} className="table-row">
+                    <TableCell>
+                      <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                        {depth > 0 && <CornerDownRight className="h-4 w-4 text-muted-foreground" />}
+                        <span className={depth === 0 ? "font-semibold" : "font-medium"}>{category.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Link to={`/products?category=${category.id}`} className="text-primary hover:underline">
+                        {productCount(category.id)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Add subcategory"
+                          onClick={() => handleOpenModal(undefined, category.id)}
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleOpenModal(category)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-destructive hover:text-destructive"
+                              disabled={hasChildren(category.id)}
+                              title={hasChildren(category.id) ? "Move or delete its subcategories first" : undefined}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{category.name}"? Its products will become
+                                uncategorized. This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(category.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
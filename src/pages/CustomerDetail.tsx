@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Mail, Phone, ShoppingCart, Users } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { customerApi, orderApi, countsAsSale, lifetimeValue, Customer, OrderWithProducts } from "@/services/api";
+import { OrderStatusBadge } from "@/components/orders/OrderStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+
+export default function CustomerDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [orders, setOrders] = useState<OrderWithProducts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [id]);
+
+  const fetchCustomer = async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const [customerRes, ordersRes] = await Promise.all([
+        customerApi.getById(id),
+        orderApi.getAll(),
+      ]);
+      setCustomer(customerRes.data);
+      setOrders(ordersRes.data.filter(order => order.customerId === id));
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      setCustomer(null);
+      toast({
+        title: "Error",
+        description: "Failed to load customer. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backLink = (
+    <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+      <Link to="/customers">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Customers
+      </Link>
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-48 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="text-center py-8">
+          <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Customer not found.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const value = lifetimeValue(orders);
+  const salesCount = orders.filter(countsAsSale).length;
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">{customer.name}</h1>
+        <div className="flex flex-wrap gap-4 text-muted-foreground text-sm mt-1">
+          {customer.email && (
+            <span className="flex items-center gap-1">
+              <Mail className="h-4 w-4" />
+              {customer.email}
+            </span>
+          )}
+          {customer.phone && (
+            <span className="flex items-center gap-1">
+              <Phone className="h-4 w-4" />
+              {customer.phone}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="dashboard-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Lifetime Value</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">${value.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Across {salesCount} {salesCount === 1 ? "order" : "orders"}
+              {salesCount > 0 && `, avg $${(value / salesCount).toFixed(2)}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="dashboard-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Addresses</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {customer.addresses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No addresses on file</p>
+            ) : (
+              customer.addresses.map((address, index) => (
+                <div key={index} className="text-sm">
+                  {address.label && <p className="font-medium">{address.label}</p>}
+                  <p>{address.street}</p>
+                  <p className="text-muted-foreground">
+                    {[address.city, address.postalCode, address.country].filter(Boolean).join(", ")}
+                  </p>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="dashboard-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-wrap">
+              {customer.notes || <span className="text-muted-foreground">No notes</span>}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Order History */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>Order History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <div className="text-center py-8">
+              <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">This customer has no orders yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order ID</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow
+                    key={order.id}
+                    className="table-row cursor-pointer"
+                    onClick={() => navigate(`/orders/${order.id}`)}
+                  >
+                    <TableCell>
+                      <span className="font-medium">#{order.id?.slice(-8)}</span>
+                    </TableCell>
+                    <TableCell>
+                      {order.createdAt && format(new Date(order.createdAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {order.items.reduce((total, item) => total + item.quantity, 0)} units
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-semibold text-success">
+                        ${typeof order.totalPrice === "number" ? order.totalPrice.toFixed(2) : "0.00"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <OrderStatusBadge status={order.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Plus, Pencil, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { customerApi, orderApi, lifetimeValue, Address, Customer, OrderWithProducts } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyAddress: Address = { label: "", street: "", city: "", postalCode: "", country: "" };
+
+const emptyForm = {
+  name: "",
+  email: "",
+  phone: "",
+  notes: "",
+  addresses: [] as Address[],
+};
+
+export default function Customers() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [orders, setOrders] = useState<OrderWithProducts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCustomers();
+  }, []);
+
+  const fetchCustomers = async () => {
+    try {
+      setLoading(true);
+      const [customersRes, ordersRes] = await Promise.all([
+        customerApi.getAll(),
+        orderApi.getAll(),
+      ]);
+      setCustomers(customersRes.data);
+      setOrders(ordersRes.data);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenModal = (customer?: Customer) => {
+    if (customer) {
+      setEditingCustomer(customer);
+      setFormData({
+        name: customer.name,
+        email: customer.email || "",
+        phone: customer.phone || "",
+        notes: customer.notes || "",
+        addresses: customer.addresses.map(address => ({ ...emptyAddress, ...address })),
+      });
+    } else {
+      setEditingCustomer(null);
+      setFormData(emptyForm);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingCustomer(null);
+    setFormData(emptyForm);
+  };
+
+  const updateAddress = (index: number, field: keyof Address, value: string) => {
+    const addresses = [...formData.addresses];
+    addresses[index] = { ...addresses[index], [field]: value };
+    setFormData({ ...formData, addresses });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter the customer's name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.addresses.some(address => !address.street || !address.city)) {
+      toast({
+        title: "Error",
+        description: "Each address needs at least a street and city.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const customerData = {
+      name: formData.name.trim(),
+      email: formData.email.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+      addresses: formData.addresses,
+    };
+
+    try {
+      if (editingCustomer) {
+        await customerApi.update(editingCustomer.id, customerData);
+        toast({
+          title: "Success",
+          description: "Customer updated successfully.",
+        });
+      } else {
+        await customerApi.create(customerData);
+        toast({
+          title: "Success",
+          description: "Customer created successfully.",
+        });
+      }
+
+      handleCloseModal();
+      fetchCustomers();
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${editingCustomer ? 'update' : 'create'} customer. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (customerId: string) => {
+    try {
+      await customerApi.delete(customerId);
+      toast({
+        title: "Success",
+        description: "Customer deleted successfully.",
+      });
+      fetchCustomers();
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete customer. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const ordersFor = (customerId: string) => orders.filter(order => order.customerId === customerId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Customers</h1>
+          <p className="text-muted-foreground">Manage customers and their order history</p>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Customer
+        </Button>
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && handleCloseModal()}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCustomer ? "Edit Customer" : "Add New Customer"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="customer-name">Name *</Label>
+              <Input
+                id="customer-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Enter customer name"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="customer-email">Email</Label>
+                <Input
+                  id="customer-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customer-phone">Phone</Label>
+                <Input
+                  id="customer-phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  placeholder="Phone number"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Addresses</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, addresses: [...formData.addresses, { ...emptyAddress }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Address
+                </Button>
+              </div>
+              {formData.addresses.map((address, index) => (
+                <Card key={index} className="p-3 space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      value={address.label}
+                      onChange={(e) => updateAddress(index, "label", e.target.value)}
+                      placeholder="Label (e.g. Billing, Shipping)"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setFormData({
+                        ...formData,
+                        addresses: formData.addresses.filter((_, i) => i !== index),
+                      })}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                  <Input
+                    value={address.street}
+                    onChange={(e) => updateAddress(index, "street", e.target.value)}
+                    placeholder="Street *"
+                  />
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      value={address.city}
+                      onChange={(e) => updateAddress(index, "city", e.target.value)}
+                      placeholder="City *"
+                    />
+                    <Input
+                      value={address.postalCode}
+                      onChange={(e) => updateAddress(index, "postalCode", e.target.value)}
+                      placeholder="Postal code"
+                    />
+                    <Input
+                      value={address.country}
+                      onChange={(e) => updateAddress(index, "country", e.target.value)}
+                      placeholder="Country"
+                    />
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customer-notes">Notes</Label>
+              <Textarea
+                id="customer-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Preferences, account details, etc."
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={handleCloseModal}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCustomer ? "Update" : "Create"} Customer
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Customers Table */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>All Customers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : customers.length === 0 ? (
+            <div className="text-center py-8">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No customers found. Add your first customer to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Orders</TableHead>
+                  <TableHead className="text-right">Lifetime Value</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map((customer) => {
+                  const customerOrders = ordersFor(customer.id);
+                  return (
+                    <TableRow
+                      key={customer.id}
+                      className="table-row cursor-pointer"
+                      onClick={() => navigate(`/customers/${customer.id}`)}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{customer.name}</p>
+                        {customer.addresses[0] && (
+                          <p className="text-sm text-muted-foreground">
+                            {customer.addresses[0].city}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">
+                          {customer.email && <p>{customer.email}</p>}
+                          {customer.phone && <p className="text-muted-foreground">{customer.phone}</p>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{customerOrders.length}</TableCell>
+                      <TableCell className="text-right font-semibold text-success">
+                        ${lifetimeValue(customerOrders).toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleOpenModal(customer)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline" className="text-destructive hover:text-destructive">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Customer</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{customer.name}"? Their orders are kept but will no longer be linked to a customer.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(customer.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,32 +1,83 @@
 import { useEffect, useState } from "react";
-import { Package, ShoppingCart, AlertTriangle, TrendingUp } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Package, ShoppingCart, AlertTriangle, TrendingUp, TrendingDown, Minus, Wallet } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { dashboardApi, OrderWithProducts, Product } from "@/services/api";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  dashboardApi,
+  EXPIRING_SOON_DAYS,
+  CategoryRollup,
+  ExpiringLot,
+  OrderWithProducts,
+  Product,
+  RevenueTrend,
+  TopProduct,
+} from "@/services/api";
+import { SalesChart } from "@/components/dashboard/SalesChart";
+import { DateRangePicker } from "@/components/dashboard/DateRangePicker";
+import { useDateRangeParams } from "@/hooks/use-date-range-params";
 import { useToast } from "@/hooks/use-toast";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface DashboardStats {
   totalProducts: number;
   totalOrders: number;
+  totalRevenue: number;
   lowStockCount: number;
+  orders: OrderWithProducts[];
   recentOrders: OrderWithProducts[];
+  topProducts: TopProduct[];
   lowStockProducts: Product[];
+  expiringSoon: ExpiringLot[];
+  inventoryValue: {
+    value: number;
+    retailValue: number;
+    units: number;
+  };
+  categoryRollups: CategoryRollup[];
+  revenueTrend: {
+    monthOverMonth: RevenueTrend;
+    weekOverWeek: RevenueTrend;
+  };
 }
 
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+const formatTrend = (trend: RevenueTrend) => {
+  if (trend.percentChange === null) return "No prior data";
+  const arrow = trend.direction === "up" ? "↑" : trend.direction === "down" ? "↓" : "";
+  return `${arrow} ${Math.abs(trend.percentChange).toFixed(1)}%`.trim();
+};
+
+const trendColor = (trend: RevenueTrend) => {
+  if (trend.percentChange === null || trend.direction === "flat") return "text-muted-foreground";
+  return trend.direction === "up" ? "text-success" : "text-destructive";
+};
+
 export default function Dashboard() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const { range } = useDateRangeParams();
   const { toast } = useToast();
+  const rangeFrom = range?.from.getTime();
+  const rangeTo = range?.to.getTime();
 
   useEffect(() => {
     fetchDashboardStats();
-  }, []);
+  }, [rangeFrom, rangeTo]);
 
   const fetchDashboardStats = async () => {
     try {
       setLoading(true);
-      const data = await dashboardApi.getStats();
+      const data = await dashboardApi.getStats(range);
       setStats(data);
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
@@ -43,13 +94,16 @@ export default function Dashboard() {
   if (loading) {
     return (
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
-          <p className="text-muted-foreground">Overview of your inventory system</p>
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
+            <p className="text-muted-foreground">Overview of your inventory system</p>
+          </div>
+          <DateRangePicker />
         </div>
         
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
-          {Array.from({ length: 4 }).map((_, i) => (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+          {Array.from({ length: 5 }).map((_, i) => (
             <Card key={i} className="dashboard-card">
               <CardContent className="p-6">
                 <div className="animate-pulse">
@@ -72,6 +126,8 @@ export default function Dashboard() {
     );
   }
 
+  const { monthOverMonth, weekOverWeek } = stats.revenueTrend;
+
   const statCards = [
     {
       title: "Total Products",
@@ -84,7 +140,7 @@ export default function Dashboard() {
       title: "Total Orders",
       value: stats.totalOrders,
       icon: ShoppingCart,
-      description: "Orders placed",
+      description: `${formatCurrency(stats.totalRevenue)} in revenue`,
       color: "text-success",
     },
     {
@@ -96,23 +152,40 @@ export default function Dashboard() {
     },
     {
       title: "Revenue Trend",
-      value: "↑ 12%",
-      icon: TrendingUp,
-      description: "vs last month",
-      color: "text-success",
+      value: formatTrend(monthOverMonth),
+      icon: monthOverMonth.direction === "down" ? TrendingDown : monthOverMonth.direction === "flat" ? Minus : TrendingUp,
+      description: monthOverMonth.percentChange === null
+        ? `${formatCurrency(monthOverMonth.current)} this month, nothing last month`
+        : `${formatCurrency(monthOverMonth.current)} vs ${formatCurrency(monthOverMonth.previous)} same period last month`,
+      detail: weekOverWeek.percentChange === null
+        ? `Week: ${formatCurrency(weekOverWeek.current)}, no prior week data`
+        : `Week: ${formatTrend(weekOverWeek)} (${weekOverWeek.delta >= 0 ? "+" : "-"}${formatCurrency(Math.abs(weekOverWeek.delta))})`,
+      color: trendColor(monthOverMonth),
+    },
+    {
+      title: "Inventory Value",
+      value: formatCurrency(stats.inventoryValue.value),
+      icon: Wallet,
+      description: `${stats.inventoryValue.units} units at cost, weighted average`,
+      detail: `${formatCurrency(stats.inventoryValue.retailValue)} at retail`,
+      color: "text-primary",
+      link: "/inventory-valuation",
     },
   ];
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
-        <p className="text-muted-foreground">Overview of your inventory system</p>
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
+          <p className="text-muted-foreground">Overview of your inventory system</p>
+        </div>
+        <DateRangePicker />
       </div>
 
       {/* Stats Cards */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
         {statCards.map((stat) => (
           <Card key={stat.title} className="dashboard-card">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -128,13 +201,75 @@ export default function Dashboard() {
               <p className="text-xs text-muted-foreground mt-1">
                 {stat.description}
               </p>
+              {"detail" in stat && stat.detail && (
+                <p className="text-xs text-muted-foreground">
+                  {stat.detail}
+                </p>
+              )}
+              {"link" in stat && stat.link && (
+                <Link to={stat.link} className="text-xs text-primary hover:underline">
+                  View valuation report
+                </Link>
+              )}
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {/* Recent Orders and Low Stock */}
-      <div className="grid gap-6 md:grid-cols-2">
+      {/* Sales Chart */}
+      <SalesChart orders={stats.orders} range={range} />
+
+      {/* Category Rollups */}
+      {stats.categoryRollups.some(rollup => rollup.categoryId) && (
+        <Card className="dashboard-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Products</TableHead>
+                  <TableHead className="text-right">Units in Stock</TableHead>
+                  <TableHead className="text-right">Low Stock</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.categoryRollups.map((rollup) => (
+                  <TableRow key={rollup.categoryId || "uncategorized"} className="table-row">
+                    <TableCell>
+                      {rollup.categoryId ? (
+                        <Link to={`/products?category=${rollup.categoryId}`} className="font-medium text-primary hover:underline">
+                          {rollup.name}
+                        </Link>
+                      ) : (
+                        <span className="font-medium text-muted-foreground">{rollup.name}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{rollup.productCount}</TableCell>
+                    <TableCell className="text-right">{rollup.stockUnits}</TableCell>
+                    <TableCell className="text-right">
+                      {rollup.lowStockCount > 0 ? (
+                        <Badge variant="destructive">{rollup.lowStockCount}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">0</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold text-success">
+                      {formatCurrency(rollup.revenue)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recent Orders, Top Products and Low Stock */}
+      <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-4">
         {/* Recent Orders */}
         <Card className="dashboard-card">
           <CardHeader>
@@ -143,12 +278,16 @@ export default function Dashboard() {
           <CardContent>
             {stats.recentOrders.length === 0 ? (
               <p className="text-muted-foreground text-center py-4">
-                No orders yet
+                No orders in this period
               </p>
             ) : (
               <div className="space-y-4">
                 {stats.recentOrders.map((order) => (
-                  <div key={order.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <Link
+                    key={order.id}
+                    to={`/orders/${order.id}`}
+                    className="flex items-center justify-between p-3 bg-muted/50 rounded-lg hover:bg-muted transition-colors"
+                  >
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <span className="text-sm font-medium">
@@ -167,6 +306,38 @@ export default function Dashboard() {
                         ${typeof order.totalPrice === "number" ? order.totalPrice.toFixed(2) : "0.00"}
                       </p>
                     </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Top Products */}
+        <Card className="dashboard-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Top Products</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats.topProducts.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                No sales in this period
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {stats.topProducts.map((product, index) => (
+                  <div key={product.productId} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    <div className="flex-1">
+                      <p className="text-sm font-medium">
+                        {index + 1}. {product.productName}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {product.quantity} sold
+                      </p>
+                    </div>
+                    <p className="text-sm font-semibold text-success">
+                      {formatCurrency(product.revenue)}
+                    </p>
                   </div>
                 ))}
               </div>
@@ -205,6 +376,41 @@ export default function Dashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* Expiring Soon */}
+        <Card className="dashboard-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Expiring Soon</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats.expiringSoon.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                No lots expire in the next {EXPIRING_SOON_DAYS} days.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {stats.expiringSoon.map((lot) => (
+                  <div
+                    key={`${lot.productId}-${lot.lotNumber}`}
+                    className="flex items-center justify-between p-3 bg-warning/10 border border-warning/20 rounded-lg"
+                  >
+                    <div className="flex-1">
+                      <Link to={`/products?highlight=${lot.productId}`} className="text-sm font-medium hover:underline">
+                        {lot.productName}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        Lot {lot.lotNumber} · {lot.quantity} units · {format(new Date(lot.expiryDate!), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <Badge variant={lot.daysLeft <= 0 ? "destructive" : "outline"} className="ml-2 whitespace-nowrap">
+                      {lot.daysLeft < 0 ? "Expired" : lot.daysLeft === 0 ? "Today" : `${lot.daysLeft}d left`}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
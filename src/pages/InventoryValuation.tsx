@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  productApi,
+  supplierApi,
+  costingMethodLabels,
+  foreignCostSupplier,
+  inventoryValuation,
+  marginPercent,
+  settledData,
+  valuationTotals,
+  CostingMethod,
+  Product,
+  Supplier,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+export default function InventoryValuation() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [method, setMethod] = useState<CostingMethod>("average");
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      setLoading(true);
+      const [response, suppliersRes] = await Promise.allSettled([productApi.getAll(), supplierApi.getAll()]);
+      if (response.status === "rejected") throw response.reason;
+      setProducts(response.value.data);
+      setSuppliers(settledData(suppliersRes, []));
+      if (suppliersRes.status === "rejected") {
+        toast({
+          title: "Error",
+          description: "Suppliers could not be loaded, so supplier costs are left out.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load products. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const lines = inventoryValuation(products, method, suppliers).sort((a, b) => b.value - a.value);
+  const foreignCostLines = lines.filter(line => foreignCostSupplier(line.product, suppliers));
+  const totals = valuationTotals(lines);
+  const totalMargin = marginPercent(totals.retailValue, totals.value);
+
+  const query = search.trim().toLowerCase();
+  const visibleLines = lines.filter(line =>
+    !query || line.product.name.toLowerCase().includes(query) || line.product.sku?.toLowerCase().includes(query)
+  );
+  const visibleTotals = valuationTotals(visibleLines);
+
+  const summaryCards = [
+    { title: "Stock at Cost", value: formatCurrency(totals.value) },
+    { title: "Stock at Retail", value: formatCurrency(totals.retailValue) },
+    { title: "Potential Margin", value: totalMargin === null ? "—" : `${totalMargin.toFixed(1)}%` },
+    { title: "Units on Hand", value: totals.units },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Inventory Valuation</h1>
+          <p className="text-muted-foreground">What the stock on your shelves cost and what it would sell for</p>
+        </div>
+        <Tabs value={method} onValueChange={(value) => setMethod(value as CostingMethod)}>
+          <TabsList>
+            {(Object.keys(costingMethodLabels) as CostingMethod[]).map((key) => (
+              <TabsTrigger key={key} value={key}>{costingMethodLabels[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title} className="dashboard-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{card.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{loading ? "—" : card.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="dashboard-card">
+        <CardHeader className="space-y-4">
+          <CardTitle>Products</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {method === "average"
+              ? "Each unit is valued at the average landed cost of everything received, or the cost price before the first receipt."
+              : "The oldest units are sold first, so stock on hand is valued at the cost of the most recent receipts."}
+          </p>
+          {foreignCostLines.length > 0 && (
+            <p className="text-sm text-warning">
+              {foreignCostLines.length} {foreignCostLines.length === 1 ? "product is" : "products are"} only costed in a
+              supplier's foreign currency. {foreignCostLines.length === 1 ? "It is" : "They are"} left out of the totals
+              until stock is received or a cost price is set.
+            </p>
+          )}
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter by name or SKU"
+            aria-label="Filter products"
+            className="max-w-sm"
+          />
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : visibleLines.length === 0 ? (
+            <div className="text-center py-8">
+              <Wallet className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                {lines.length === 0 ? "No stocked products to value yet." : "No products match your search."}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value at Cost</TableHead>
+                  <TableHead className="text-right">Retail Value</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleLines.map((line) => {
+                  const foreignCost = foreignCostSupplier(line.product, suppliers);
+                  const margin = foreignCost ? null : marginPercent(line.product.price, line.unitCost);
+                  return (
+                    <TableRow key={line.product.id} className="table-row">
+                      <TableCell>
+                        <Link
+                          to={`/products?highlight=${line.product.id}`}
+                          className="font-medium text-primary hover:underline"
+                        >
+                          {line.product.name}
+                        </Link>
+                        {line.product.sku && (
+                          <p className="text-xs text-muted-foreground font-mono">{line.product.sku}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{line.product.stock}</TableCell>
+                      <TableCell className="text-right">
+                        {foreignCost ? (
+                          <span className="text-xs text-warning whitespace-nowrap">{foreignCost.currency} cost not included</span>
+                        ) : formatCurrency(line.unitCost)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.value)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.retailValue)}</TableCell>
+                      <TableCell className={cn("text-right", margin !== null && margin < 0 && "text-destructive")}>
+                        {margin === null ? <span className="text-muted-foreground">—</span> : `${margin.toFixed(1)}%`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right">{visibleTotals.units}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right font-semibold">{formatCurrency(visibleTotals.value)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(visibleTotals.retailValue)}</TableCell>
+                  <TableCell className="text-right">
+                    {marginPercent(visibleTotals.retailValue, visibleTotals.value)?.toFixed(1) ?? "—"}
+                    {visibleTotals.retailValue > 0 && "%"}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { Plus, Pencil, Trash2, Warehouse } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  locationApi,
+  productApi,
+  transferApi,
+  inTransitQuantities,
+  isBundle,
+  locationBreakdown,
+  lowStockLocationIds,
+  Product,
+  StockLocation,
+  StockTransfer,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  name: "",
+  code: "",
+};
+
+export default function Locations() {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<StockLocation | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const fetchLocations = async () => {
+    try {
+      setLoading(true);
+      const [locationsRes, productsRes, transfersRes] = await Promise.all([
+        locationApi.getAll(),
+        productApi.getAll(),
+        transferApi.getAll(),
+      ]);
+      setLocations(locationsRes.data);
+      setProducts(productsRes.data);
+      setTransfers(transfersRes.data);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load locations. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenModal = (location?: StockLocation) => {
+    if (location) {
+      setEditingLocation(location);
+      setFormData({ name: location.name, code: location.code || "" });
+    } else {
+      setEditingLocation(null);
+      setFormData(emptyForm);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingLocation(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    if (!name) {
+      toast({
+        title: "Error",
+        description: "Please enter a location name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const code = formData.code.trim().toUpperCase();
+    const clash = locations.find(location =>
+      location.id !== editingLocation?.id &&
+      (location.name.toLowerCase() === name.toLowerCase() || (code && location.code === code))
+    );
+    if (clash) {
+      toast({
+        title: "Error",
+        description: `${clash.name} already uses that name or code.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const locationData = { name, code: code || undefined };
+
+    try {
+      if (editingLocation) {
+        await locationApi.update(editingLocation.id, locationData);
+        toast({
+          title: "Success",
+          description: "Location updated successfully.",
+        });
+      } else {
+        await locationApi.create(locationData);
+        toast({
+          title: "Success",
+          description: "Location created successfully.",
+        });
+      }
+
+      handleCloseModal();
+      fetchLocations();
+    } catch (error) {
+      console.error('Error saving location:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${editingLocation ? 'update' : 'create'} location. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (locationId: string) => {
+    try {
+      await locationApi.delete(locationId);
+      toast({
+        title: "Success",
+        description: "Location deleted successfully.",
+      });
+      fetchLocations();
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete location. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Kits hold no stock of their own
+  const stockHeld = (locationId: string) =>
+    products
+      .filter(product => !isBundle(product))
+      .map(product => locationBreakdown(product, locations).find(entry => entry.locationId === locationId)?.stock || 0);
+
+  const unitsAt = (locationId: string) => stockHeld(locationId).reduce((total, stock) => total + stock, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Locations</h1>
+          <p className="text-muted-foreground">Shops and warehouses where stock is kept</p>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Location
+        </Button>
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && handleCloseModal()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingLocation ? "Edit Location" : "Add New Location"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name *</Label>
+              <Input
+                id="location-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Back Warehouse"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="location-code">Code</Label>
+              <Input
+                id="location-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="e.g. WH1"
+              />
+            </div>
+
+            {!editingLocation && locations.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Existing stock is counted at your first location until you move it.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={handleCloseModal}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingLocation ? "Update" : "Create"} Location
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Locations Table */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>All Locations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-8">
+              <Warehouse className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No locations yet. Add one to track stock per shop or warehouse.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Products Stocked</TableHead>
+                  <TableHead>Units</TableHead>
+                  <TableHead>Incoming</TableHead>
+                  <TableHead>Low Stock</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.id} className="table-row">
+                    <TableCell className="font-medium">{location.name}</TableCell>
+                    <TableCell className="font-mono">
+                      {location.code || <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell>{stockHeld(location.id).filter(stock => stock > 0).length}</TableCell>
+                    <TableCell>{unitsAt(location.id)}</TableCell>
+                    <TableCell>
+                      {Object.values(inTransitQuantities(transfers, location.id)).reduce((total, quantity) => total + quantity, 0) || (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {products.filter(product => lowStockLocationIds(product).includes(location.id)).length}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleOpenModal(location)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-destructive hover:text-destructive"
+                              disabled={unitsAt(location.id) > 0}
+                              title={unitsAt(location.id) > 0 ? "Move its stock elsewhere first" : undefined}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Location</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{location.name}"? This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(location.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import { useEffect, useState } from "react";
-import { AlertTriangle, Package, Plus } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, ClipboardList, Package, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -12,23 +14,59 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { productApi, Product } from "@/services/api";
+  productApi,
+  supplierApi,
+  purchaseOrderApi,
+  categoryApi,
+  locationApi,
+  preferredSupplier,
+  onOrderQuantities,
+  settledData,
+  categoryDescendantIds,
+  isBundle,
+  isLowStock,
+  locationLabel,
+  lowStockLocationIds,
+  shortComponents,
+  Category,
+  Product,
+  StockLocation,
+  Supplier,
+} from "@/services/api";
+import { StockAdjustmentDialog } from "@/components/products/StockAdjustmentDialog";
+import { CategorySelect } from "@/components/categories/CategorySelect";
+import { CreateReorderDialog } from "@/components/purchase-orders/CreateReorderDialog";
 import { useToast } from "@/hooks/use-toast";
 
+type Urgency = "critical" | "high" | "medium";
+
+const urgencyOrder: Record<Urgency, number> = { critical: 0, high: 1, medium: 2 };
+
+const levelUrgency = (stock: number, threshold: number): Urgency => {
+  if (stock === 0) return "critical";
+  if (stock <= Math.floor(threshold * 0.5)) return "high";
+  return "medium";
+};
+
+// Locations at or below their own threshold, even when the product's total is not
+const lowLocations = (product: Product) => {
+  const ids = lowStockLocationIds(product);
+  return (product.locationStock || []).filter(entry => ids.includes(entry.locationId));
+};
+
 export default function LowStock() {
+  const [products, setProducts] = useState<Product[]>([]);
   const [lowStockProducts, setLowStockProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [onOrder, setOnOrder] = useState<Record<string, number>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState("");
   const [loading, setLoading] = useState(true);
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [newStock, setNewStock] = useState("");
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isReorderOpen, setIsReorderOpen] = useState(false);
+  const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -38,12 +76,31 @@ export default function LowStock() {
   const fetchLowStockProducts = async () => {
     try {
       setLoading(true);
-      const response = await productApi.getAll();
-      const allProducts = response.data;
-      const filtered = allProducts.filter(product => 
-        product.stock <= product.lowStockThreshold
-      );
+      // Only the products are essential; supplier, order and category details fill in when they load
+      const [response, suppliersRes, purchaseOrdersRes, categoriesRes, locationsRes] = await Promise.allSettled([
+        productApi.getAll(),
+        supplierApi.getAll(),
+        purchaseOrderApi.getAll(),
+        categoryApi.getAll(),
+        locationApi.getAll(),
+      ]);
+      if (response.status === "rejected") throw response.reason;
+      const allProducts = response.value.data;
+      setProducts(allProducts);
+      setSuppliers(settledData(suppliersRes, []));
+      setOnOrder(onOrderQuantities(settledData(purchaseOrdersRes, [])));
+      setCategories(settledData(categoriesRes, []));
+      setLocations(settledData(locationsRes, []));
+      if ([suppliersRes, purchaseOrdersRes, categoriesRes, locationsRes].some(result => result.status === "rejected")) {
+        toast({
+          title: "Error",
+          description: "Some supplier, purchase order, category or location details could not be loaded.",
+          variant: "destructive",
+        });
+      }
+      const filtered = allProducts.filter(isLowStock);
       setLowStockProducts(filtered);
+      setSelectedIds(ids => ids.filter(id => filtered.some(product => product.id === id && !isBundle(product))));
     } catch (error) {
       console.error('Error fetching low stock products:', error);
       toast({
@@ -56,70 +113,49 @@ export default function LowStock() {
     }
   };
 
-  const handleOpenModal = (product: Product) => {
-    setSelectedProduct(product);
-    setNewStock(product.stock.toString());
-    setIsModalOpen(true);
-  };
-
-  const handleCloseModal = () => {
-    setIsModalOpen(false);
-    setSelectedProduct(null);
-    setNewStock("");
-  };
-
-  const handleUpdateStock = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedProduct || !newStock) {
-      toast({
-        title: "Error",
-        description: "Please enter a valid stock amount.",
-        variant: "destructive",
-      });
-      return;
+  const getStockStatus = (product: Product) => {
+    if (product.stock === 0) return { label: "Out of Stock", variant: "destructive" as const };
+    if (product.stock <= product.lowStockThreshold) return { label: "Low Stock", variant: "destructive" as const };
+    const low = lowLocations(product);
+    if (low.length > 0) {
+      const out = low.filter(entry => entry.stock === 0).length;
+      const count = out || low.length;
+      return {
+        label: `${out ? "Out" : "Low"} at ${count} ${count === 1 ? "Location" : "Locations"}`,
+        variant: "destructive" as const,
+      };
     }
+    return { label: "In Stock", variant: "secondary" as const };
+  };
 
-    const stockValue = parseInt(newStock);
-    if (stockValue < 0) {
-      toast({
-        title: "Error",
-        description: "Stock cannot be negative.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      await productApi.update(selectedProduct.id!, { stock: stockValue });
-      toast({
-        title: "Success",
-        description: `Stock updated for ${selectedProduct.name}.`,
-      });
-      handleCloseModal();
-      fetchLowStockProducts();
-    } catch (error) {
-      console.error('Error updating stock:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update stock. Please try again.",
-        variant: "destructive",
-      });
+  // The most urgent of the product's overall level and each low location's level
+  const getUrgencyLevel = (product: Product): Urgency => {
+    const levels = lowLocations(product).map(entry => levelUrgency(entry.stock, entry.lowStockThreshold ?? 0));
+    if (product.stock <= product.lowStockThreshold) {
+      levels.push(levelUrgency(product.stock, product.lowStockThreshold));
     }
+    return levels.reduce<Urgency>((worst, level) => (urgencyOrder[level] < urgencyOrder[worst] ? level : worst), "medium");
   };
 
-  const getStockStatus = (product: Product) => {
-    if (product.stock === 0) return { label: "Out of Stock", variant: "destructive" as const };
-    if (product.stock <= product.lowStockThreshold) return { label: "Low Stock", variant: "destructive" as const };
-    return { label: "In Stock", variant: "secondary" as const };
+  const locationName = (id: string) => {
+    const location = locations.find(l => l.id === id);
+    return location ? locationLabel(location) : "Unknown location";
   };
 
-  const getUrgencyLevel = (product: Product) => {
-    if (product.stock === 0) return "critical";
-    if (product.stock <= Math.floor(product.lowStockThreshold * 0.5)) return "high";
-    return "medium";
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
   };
 
+  // Filtering by a category includes its subcategories
+  const categoryIds = categoryFilter ? categoryDescendantIds(categories, categoryFilter) : null;
+  const visibleProducts = categoryIds
+    ? lowStockProducts.filter(product => product.categoryId && categoryIds.has(product.categoryId))
+    : lowStockProducts;
+
+  // Kits are restocked through their components, so only plain products can be reordered
+  const reorderable = visibleProducts.filter(product => !isBundle(product));
+  const allSelected = reorderable.length > 0 && reorderable.every(product => selectedIds.includes(product.id));
+
   const urgencyColors = {
     critical: "border-l-4 border-l-red-500 bg-red-50/50",
     high: "border-l-4 border-l-orange-500 bg-orange-50/50",
@@ -137,6 +173,10 @@ export default function LowStock() {
           </h1>
           <p className="text-muted-foreground">Products that need immediate attention</p>
         </div>
+        <Button onClick={() => setIsReorderOpen(true)} disabled={selectedIds.length === 0} className="gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Create Reorder{selectedIds.length > 0 && ` (${selectedIds.length})`}
+        </Button>
       </div>
 
       {/* Summary Cards */}
@@ -150,7 +190,7 @@ export default function LowStock() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-500">
-              {lowStockProducts.filter(p => p.stock === 0).length}
+              {visibleProducts.filter(p => getUrgencyLevel(p) === "critical").length}
             </div>
             <p className="text-xs text-muted-foreground">
               Immediate restocking needed
@@ -167,7 +207,7 @@ export default function LowStock() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-orange-500">
-              {lowStockProducts.filter(p => p.stock > 0 && p.stock <= Math.floor(p.lowStockThreshold * 0.5)).length}
+              {visibleProducts.filter(p => getUrgencyLevel(p) === "high").length}
             </div>
             <p className="text-xs text-muted-foreground">
               Very low stock levels
@@ -184,7 +224,7 @@ export default function LowStock() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">
-              {lowStockProducts.length}
+              {visibleProducts.length}
             </div>
             <p className="text-xs text-muted-foreground">
               Products below threshold
@@ -195,8 +235,15 @@ export default function LowStock() {
 
       {/* Low Stock Products */}
       <Card className="dashboard-card">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
           <CardTitle>Products Requiring Attention</CardTitle>
+          <CategorySelect
+            categories={categories}
+            value={categoryFilter}
+            onValueChange={setCategoryFilter}
+            emptyLabel="All categories"
+            className="w-56"
+          />
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -207,42 +254,61 @@ export default function LowStock() {
                 </div>
               ))}
             </div>
-          ) : lowStockProducts.length === 0 ? (
+          ) : visibleProducts.length === 0 ? (
             <div className="text-center py-8">
               <Package className="h-12 w-12 text-success mx-auto mb-4" />
               <h3 className="text-lg font-semibold text-success mb-2">All Good!</h3>
               <p className="text-muted-foreground">
-                All products are well stocked. No immediate action needed.
+                {categoryFilter
+                  ? "Everything in this category is well stocked."
+                  : "All products are well stocked. No immediate action needed."}
               </p>
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? reorderable.map(p => p.id) : [])}
+                    />
+                  </TableHead>
                   <TableHead>Product</TableHead>
                   <TableHead>Current Stock</TableHead>
+                  <TableHead>On Order</TableHead>
                   <TableHead>Threshold</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Priority</TableHead>
+                  <TableHead>Preferred Supplier</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {lowStockProducts
-                  .sort((a, b) => {
-                    // Sort by urgency: critical first, then high, then medium
-                    const urgencyOrder = { critical: 0, high: 1, medium: 2 };
-                    return urgencyOrder[getUrgencyLevel(a)] - urgencyOrder[getUrgencyLevel(b)];
-                  })
+                {visibleProducts
+                  // Sort by urgency: critical first, then high, then medium
+                  .sort((a, b) => urgencyOrder[getUrgencyLevel(a)] - urgencyOrder[getUrgencyLevel(b)])
                   .map((product) => {
                     const urgency = getUrgencyLevel(product);
                     const status = getStockStatus(product);
+                    const low = lowLocations(product);
+                    const supplierLink = preferredSupplier(product);
+                    const supplier = supplierLink && suppliers.find(s => s.id === supplierLink.supplierId);
                     
                     return (
                       <TableRow 
                         key={product.id} 
                         className={`table-row ${urgencyColors[urgency]}`}
                       >
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select ${product.name}`}
+                            checked={selectedIds.includes(product.id)}
+                            onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                            disabled={isBundle(product)}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <AlertTriangle 
@@ -253,6 +319,20 @@ export default function LowStock() {
                             />
                             <div>
                               <p className="font-medium">{product.name}</p>
+                              {isBundle(product) && (
+                                <p className="text-xs text-muted-foreground">
+                                  Kit short of {shortComponents(product, products)
+                                    .map(component => products.find(p => p.id === component.productId)?.name || "a deleted product")
+                                    .join(", ")}
+                                </p>
+                              )}
+                              {low.length > 0 && (
+                                <p className="text-xs text-destructive">
+                                  Low at {low
+                                    .map(entry => `${locationName(entry.locationId)} (${entry.stock} of ${entry.lowStockThreshold})`)
+                                    .join(", ")}
+                                </p>
+                              )}
                               {product.description && (
                                 <p className="text-sm text-muted-foreground">
                                   {product.description}
@@ -268,6 +348,9 @@ export default function LowStock() {
                             {product.stock}
                           </span>
                         </TableCell>
+                        <TableCell>
+                          {onOrder[product.id] || <span className="text-muted-foreground">—</span>}
+                        </TableCell>
                         <TableCell>{product.lowStockThreshold}</TableCell>
                         <TableCell>
                           <Badge variant={status.variant}>
@@ -286,66 +369,36 @@ export default function LowStock() {
                             {urgency.charAt(0).toUpperCase() + urgency.slice(1)}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          {supplierLink && supplier ? (
+                            <div>
+                              <p className="font-medium">{supplier.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {supplierLink.cost.toFixed(2)} {supplier.currency}
+                                {supplierLink.supplierSku && ` · SKU ${supplierLink.supplierSku}`}
+                              </p>
+                              {(supplier.contactName || supplier.phone || supplier.email) && (
+                                <p className="text-xs text-muted-foreground">
+                                  {[supplier.contactName, supplier.phone || supplier.email].filter(Boolean).join(" · ")}
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">No supplier</span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right">
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleOpenModal(product)}
-                                className="gap-2"
-                              >
-                                <Plus className="h-4 w-4" />
-                                Update Stock
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="sm:max-w-md">
-                              <DialogHeader>
-                                <DialogTitle>Update Stock - {selectedProduct?.name}</DialogTitle>
-                              </DialogHeader>
-                              <form onSubmit={handleUpdateStock} className="space-y-4">
-                                <div className="space-y-2">
-                                  <Label htmlFor="current-stock">Current Stock</Label>
-                                  <Input
-                                    id="current-stock"
-                                    value={selectedProduct?.stock || 0}
-                                    disabled
-                                  />
-                                </div>
-                                
-                                <div className="space-y-2">
-                                  <Label htmlFor="new-stock">New Stock Amount *</Label>
-                                  <Input
-                                    id="new-stock"
-                                    type="number"
-                                    min="0"
-                                    value={newStock}
-                                    onChange={(e) => setNewStock(e.target.value)}
-                                    placeholder="Enter new stock amount"
-                                    required
-                                  />
-                                </div>
-                                
-                                <div className="bg-muted p-3 rounded-lg">
-                                  <p className="text-sm">
-                                    <strong>Threshold:</strong> {selectedProduct?.lowStockThreshold}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground mt-1">
-                                    Recommended: Add at least {selectedProduct && (selectedProduct.lowStockThreshold * 2)} units
-                                  </p>
-                                </div>
-                                
-                                <div className="flex justify-end gap-2 pt-4">
-                                  <Button type="button" variant="outline" onClick={handleCloseModal}>
-                                    Cancel
-                                  </Button>
-                                  <Button type="submit">
-                                    Update Stock
-                                  </Button>
-                                </div>
-                              </form>
-                            </DialogContent>
-                          </Dialog>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setAdjustingProduct(product)}
+                            disabled={isBundle(product)}
+                            title={isBundle(product) ? "Adjust the kit's components instead" : undefined}
+                            className="gap-2"
+                          >
+                            <Plus className="h-4 w-4" />
+                            Adjust Stock
+                          </Button>
                         </TableCell>
                       </TableRow>
                     );
@@ -355,6 +408,23 @@ export default function LowStock() {
           )}
         </CardContent>
       </Card>
+
+      <StockAdjustmentDialog
+        product={adjustingProduct}
+        locations={locations}
+        defaultReason="received"
+        onOpenChange={(open) => !open && setAdjustingProduct(null)}
+        onAdjusted={fetchLowStockProducts}
+      />
+
+      <CreateReorderDialog
+        open={isReorderOpen}
+        products={lowStockProducts.filter(product => selectedIds.includes(product.id))}
+        suppliers={suppliers}
+        onOrder={onOrder}
+        onOpenChange={setIsReorderOpen}
+        onCreated={() => navigate("/purchase-orders?status=draft")}
+      />
     </div>
   );
 }
\ No newline at end of file
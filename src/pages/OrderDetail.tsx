@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, FileText, PackageOpen, ShoppingCart } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  orderApi,
+  customerApi,
+  returnApi,
+  returnDispositionLabels,
+  remainingQuantity,
+  Customer,
+  CustomerReturn,
+  OrderWithProducts,
+} from "@/services/api";
+import { OrderStatusBadge } from "@/components/orders/OrderStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+
+const formatTimestamp = (value?: string) => value ? format(new Date(value), "MMM d, yyyy 'at' HH:mm:ss") : "—";
+
+export default function OrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<OrderWithProducts | null>(null);
+  const [returns, setReturns] = useState<CustomerReturn[]>([]);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOrder();
+  }, [id]);
+
+  const fetchOrder = async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const orderRes = await orderApi.getById(id);
+      setOrder(orderRes.data);
+      fetchReturns(id);
+      fetchCustomer(orderRes.data.customerId);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      setOrder(null);
+      toast({
+        title: "Error",
+        description: "Failed to load order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Returns and the customer are extras; the order still shows if they fail to load
+  const fetchReturns = async (orderId: string) => {
+    try {
+      const response = await returnApi.getAll({ orderId });
+      setReturns(response.data);
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      setReturns([]);
+      toast({
+        title: "Error",
+        description: "Failed to load returns for this order.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchCustomer = async (customerId?: string) => {
+    try {
+      setCustomer(customerId ? (await customerApi.getById(customerId)).data : null);
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      setCustomer(null);
+    }
+  };
+
+  const backLink = (
+    <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+      <Link to="/orders">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Orders
+      </Link>
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-48 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="text-center py-8">
+          <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Order not found.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const itemsSubtotal = order.items.reduce((total, item) => total + item.price * item.quantity, 0);
+  const cancelledTotal = order.items.reduce((total, item) => total + item.price * (item.cancelledQuantity || 0), 0);
+  const refundedTotal = returns.reduce((total, customerReturn) => total + customerReturn.refundAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            Order #{order.id?.slice(-8)}
+            <OrderStatusBadge status={order.status} />
+          </h1>
+          <p className="text-muted-foreground font-mono text-sm break-all">{order.id}</p>
+          <p className="text-muted-foreground">Placed {formatTimestamp(order.createdAt)}</p>
+          <p className="text-muted-foreground">
+            Customer:{" "}
+            {customer ? (
+              <Link to={`/customers/${customer.id}`} className="text-primary hover:underline">
+                {customer.name}
+              </Link>
+            ) : order.customerId ? (
+              <Link to={`/customers/${order.customerId}`} className="text-primary hover:underline">
+                View customer
+              </Link>
+            ) : (
+              "Walk-in"
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button asChild variant="outline" size="sm" className="gap-2">
+            <Link to={`/orders/${order.id}/invoice`}>
+              <FileText className="h-4 w-4" />
+              Invoice
+            </Link>
+          </Button>
+          <Button asChild variant="outline" size="sm" className="gap-2">
+            <Link to={`/orders/${order.id}/packing-slip`}>
+              <PackageOpen className="h-4 w-4" />
+              Packing Slip
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Line Items */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Unit Price</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Subtotal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => (
+                <TableRow key={item.productId} className="table-row">
+                  <TableCell>
+                    <Link
+                      to={`/products?highlight=${item.productId}`}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      {item.productName}
+                    </Link>
+                    {!!item.serials?.length && (
+                      <p className="text-xs text-muted-foreground font-mono">
+                        S/N {item.serials.join(", ")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    {item.quantity}
+                    {!!item.cancelledQuantity && (
+                      <span className="block text-xs text-destructive">
+                        {item.cancelledQuantity} cancelled, {remainingQuantity(item)} remaining
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">${(item.price * item.quantity).toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3}>Items subtotal</TableCell>
+                <TableCell className="text-right">${itemsSubtotal.toFixed(2)}</TableCell>
+              </TableRow>
+              {cancelledTotal > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>Cancelled</TableCell>
+                  <TableCell className="text-right text-destructive">−${cancelledTotal.toFixed(2)}</TableCell>
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell colSpan={3} className="font-semibold">Order total</TableCell>
+                <TableCell className="text-right font-semibold text-success">
+                  ${typeof order.totalPrice === "number" ? order.totalPrice.toFixed(2) : "0.00"}
+                </TableCell>
+              </TableRow>
+              {refundedTotal > 0 && (
+                <TableRow>
+                  <TableCell colSpan={3}>Refunded on returns</TableCell>
+                  <TableCell className="text-right text-destructive">−${refundedTotal.toFixed(2)}</TableCell>
+                </TableRow>
+              )}
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Status History */}
+        <Card className="dashboard-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Status History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!order.statusHistory || order.statusHistory.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                No status changes recorded
+              </p>
+            ) : (
+              <ol className="space-y-3">
+                {order.statusHistory.map((change, index) => (
+                  <li key={index} className="flex items-start justify-between gap-4 p-3 bg-muted/50 rounded-lg">
+                    <div>
+                      <OrderStatusBadge status={change.status} />
+                      {change.note && (
+                        <p className="text-sm text-muted-foreground mt-1">{change.note}</p>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatTimestamp(change.changedAt)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {order.cancellationReason && (
+              <p className="text-sm mt-4">
+                <strong>Cancellation reason:</strong> {order.cancellationReason}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Returns */}
+        <Card className="dashboard-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Returns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {returns.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">
+                No items returned
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {returns.map((customerReturn) => (
+                  <div key={customerReturn.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Return #{customerReturn.id.slice(-8)}</span>
+                      <span className="text-sm font-semibold text-destructive">
+                        −${customerReturn.refundAmount.toFixed(2)}
+                      </span>
+                    </div>
+                    {customerReturn.items.map((item, index) => (
+                      <p key={index} className="text-sm">
+                        {item.productName} × {item.quantity}{" "}
+                        <Badge variant="outline" className="text-xs">
+                          {returnDispositionLabels[item.disposition]}
+                        </Badge>
+                      </p>
+                    ))}
+                    <p className="text-xs text-muted-foreground">
+                      {formatTimestamp(customerReturn.createdAt)} · {customerReturn.reason}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { orderApi, customerApi, Customer, OrderWithProducts } from "@/services/api";
+import { businessProfile } from "@/lib/business";
+import {
+  documentLines,
+  documentParties,
+  downloadOrderPdf,
+  invoiceTotals,
+  orderDocumentTitles,
+  orderNumber,
+  OrderDocumentKind,
+} from "@/lib/order-documents";
+import { useToast } from "@/hooks/use-toast";
+
+interface OrderDocumentProps {
+  kind: OrderDocumentKind;
+}
+
+export default function OrderDocument({ kind }: OrderDocumentProps) {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<OrderWithProducts | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOrder();
+  }, [id]);
+
+  const fetchOrder = async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const response = await orderApi.getById(id);
+      setOrder(response.data);
+      fetchCustomer(response.data.customerId);
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Without the customer the document still prints, just without its address block
+  const fetchCustomer = async (customerId?: string) => {
+    try {
+      setCustomer(customerId ? (await customerApi.getById(customerId)).data : null);
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the customer's address.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading || !order) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">{loading ? "Loading…" : "Order not found"}</p>
+      </div>
+    );
+  }
+
+  const lines = documentLines(order);
+  const totals = invoiceTotals(order);
+  const title = orderDocumentTitles[kind];
+  const parties = documentParties(customer, kind);
+
+  return (
+    <div className="min-h-screen bg-muted/40 print:bg-white">
+      {/* Toolbar */}
+      <div className="no-print flex items-center justify-between max-w-3xl mx-auto px-6 py-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+          <Link to={`/orders/${order.id}`}>
+            <ArrowLeft className="h-4 w-4" />
+            Back to Order
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => downloadOrderPdf(order, kind, customer)}>
+            <Download className="h-4 w-4" />
+            Download PDF
+          </Button>
+          <Button size="sm" className="gap-2" onClick={() => window.print()}>
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {/* Document */}
+      <div className="print-page max-w-3xl mx-auto bg-white text-black p-10 shadow-sm print:shadow-none">
+        <div className="flex items-start justify-between border-b pb-6 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">{businessProfile.name}</h1>
+            {[businessProfile.address, businessProfile.email, businessProfile.phone]
+              .filter(Boolean)
+              .map((line) => (
+                <p key={line} className="text-sm text-gray-600">{line}</p>
+              ))}
+          </div>
+          <div className="text-right">
+            <h2 className="text-xl font-semibold uppercase tracking-wide">{title}</h2>
+            <p className="text-sm">Order #{orderNumber(order)}</p>
+            {order.createdAt && (
+              <p className="text-sm text-gray-600">{format(new Date(order.createdAt), "MMM d, yyyy")}</p>
+            )}
+          </div>
+        </div>
+
+        {parties.length > 0 && (
+          <div className="grid grid-cols-2 gap-8 mb-6 text-sm">
+            {parties.map((party) => (
+              <div key={party.heading}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{party.heading}</p>
+                {party.lines.map((line, index) => (
+                  <p key={index} className={index === 0 ? "font-medium" : "text-gray-600"}>{line}</p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2">Item</th>
+              {kind === "invoice" && <th className="py-2 text-right">Unit Price</th>}
+              <th className="py-2 text-right">Qty</th>
+              {kind === "invoice" ? (
+                <th className="py-2 text-right">Subtotal</th>
+              ) : (
+                <th className="py-2 text-center w-20">Packed</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => (
+              <tr key={line.productId} className="border-b">
+                <td className="py-2">{line.productName}</td>
+                {kind === "invoice" && <td className="py-2 text-right">${line.price.toFixed(2)}</td>}
+                <td className="py-2 text-right">{line.quantity}</td>
+                {kind === "invoice" ? (
+                  <td className="py-2 text-right">${line.subtotal.toFixed(2)}</td>
+                ) : (
+                  <td className="py-2 text-center">
+                    <span className="inline-block h-4 w-4 border border-black" />
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {kind === "invoice" ? (
+          <div className="mt-6 ml-auto w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Net</span>
+              <span>${totals.net.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tax ({(businessProfile.taxRate * 100).toFixed(1)}%)</span>
+              <span>${totals.tax.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-2 text-base font-bold">
+              <span>Total</span>
+              <span>${totals.total.toFixed(2)}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-10 grid grid-cols-2 gap-8 text-sm">
+            <p className="border-t pt-2">Packed by</p>
+            <p className="border-t pt-2">Checked by</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
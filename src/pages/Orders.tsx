@@ -1,8 +1,8 @@
 import { useEffect, useState } from "react";
-import { Plus, ShoppingCart, Package } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Plus, ShoppingCart, Package, ChevronDown, ScanBarcode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import {
   Table,
   TableBody,
@@ -18,6 +18,15 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -27,8 +36,37 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { productApi, orderApi, Product, OrderWithProducts, OrderItem } from "@/services/api";
+import {
+  productApi,
+  orderApi,
+  customerApi,
+  locationApi,
+  serialApi,
+  orderStatusLabels,
+  orderStatusTransitions,
+  returnableStatuses,
+  hasVariants,
+  isBundle,
+  bundleStock,
+  stockAt,
+  settledData,
+  Product,
+  StockLocation,
+  SerialUnit,
+  Customer,
+  OrderWithProducts,
+  OrderItem,
+  OrderStatus,
+  OrderTransitionError,
+  InsufficientStockError,
+} from "@/services/api";
+import { OrderStatusBadge } from "@/components/orders/OrderStatusBadge";
+import { CancelOrderDialog } from "@/components/orders/CancelOrderDialog";
+import { CreateReturnDialog } from "@/components/orders/CreateReturnDialog";
+import { SerialPicker } from "@/components/serials/SerialPicker";
+import { findProductByCode } from "@/lib/barcode";
 import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
 import { formatDistanceToNow } from "date-fns";
 
 interface OrderFormItem {
@@ -37,19 +75,41 @@ interface OrderFormItem {
   price: number;
   availableStock: number;
   quantity: number;
+  // Serial-tracked products take their quantity from the serials picked
+  serials: string[];
 }
 
+const emptyOrderItem: OrderFormItem = {
+  productId: "",
+  productName: "",
+  price: 0,
+  availableStock: 0,
+  quantity: 1,
+  serials: [],
+};
+
 export default function Orders() {
   const [orders, setOrders] = useState<OrderWithProducts[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [orderItems, setOrderItems] = useState<OrderFormItem[]>([]);
+  const [customerId, setCustomerId] = useState("");
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [serials, setSerials] = useState<SerialUnit[]>([]);
+  const [scanCode, setScanCode] = useState("");
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "all">("all");
+  const [cancellingOrder, setCancellingOrder] = useState<OrderWithProducts | null>(null);
+  const [returningOrder, setReturningOrder] = useState<OrderWithProducts | null>(null);
+  const navigate = useNavigate();
   const { toast } = useToast();
 
   useEffect(() => {
     fetchOrders();
     fetchProducts();
+    fetchCustomers();
   }, []);
 
   const fetchOrders = async () => {
@@ -69,8 +129,23 @@ export default function Orders() {
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const response = await productApi.getAll();
-      setProducts(response.data);
+      // Only the products are essential; locations and serial numbers fill in when they load
+      const [response, locationsRes, serialsRes] = await Promise.allSettled([
+        productApi.getAll(),
+        locationApi.getAll(),
+        serialApi.getAll({ status: "in-stock" }),
+      ]);
+      if (response.status === "rejected") throw response.reason;
+      setProducts(response.value.data);
+      setLocations(settledData(locationsRes, []));
+      setSerials(settledData(serialsRes, []));
+      if ([locationsRes, serialsRes].some(result => result.status === "rejected")) {
+        toast({
+          title: "Error",
+          description: "Some location or serial number details could not be loaded.",
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error fetching products:', error);
       toast({
@@ -83,8 +158,43 @@ export default function Orders() {
     }
   };
 
+  const fetchCustomers = async () => {
+    try {
+      const response = await customerApi.getAll();
+      setCustomers(response.data);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load customers. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Stock that can be picked at the chosen location; kits count what their
+  // components there allow
+  const availableAt = (product: Product, atLocationId = locationId) => {
+    if (!atLocationId) return product.stock;
+    if (isBundle(product)) {
+      return bundleStock(product, products.map(p => ({ id: p.id, stock: stockAt(p, locations, atLocationId) })));
+    }
+    return stockAt(product, locations, atLocationId);
+  };
+
+  const handleLocationChange = (value: string) => {
+    setLocationId(value);
+    setOrderItems(orderItems.map(item => {
+      const product = products.find(p => p.id === item.productId);
+      return product ? { ...item, availableStock: availableAt(product, value) } : item;
+    }));
+  };
+
   const handleOpenModal = () => {
-    setOrderItems([{ productId: "", productName: "", price: 0, availableStock: 0, quantity: 1 }]);
+    setCustomerId("");
+    setLocationId(locations[0]?.id || "");
+    setScanCode("");
+    setOrderItems([emptyOrderItem]);
     setIsModalOpen(true);
   };
 
@@ -94,7 +204,7 @@ export default function Orders() {
   };
 
   const addOrderItem = () => {
-    setOrderItems([...orderItems, { productId: "", productName: "", price: 0, availableStock: 0, quantity: 1 }]);
+    setOrderItems([...orderItems, emptyOrderItem]);
   };
 
   const removeOrderItem = (index: number) => {
@@ -112,8 +222,9 @@ export default function Orders() {
           productId: value,
           productName: selectedProduct.name,
           price: selectedProduct.price,
-          availableStock: selectedProduct.stock,
-          quantity: Math.min(updatedItems[index].quantity, selectedProduct.stock),
+          availableStock: availableAt(selectedProduct),
+          quantity: selectedProduct.serialTracked ? 0 : Math.min(updatedItems[index].quantity, availableAt(selectedProduct)),
+          serials: [],
         };
       }
     } else {
@@ -123,11 +234,93 @@ export default function Orders() {
     setOrderItems(updatedItems);
   };
 
+  const serialsInStock = (productId: string) =>
+    serials.filter(serial => serial.productId === productId).map(serial => serial.serialNumber);
+
+  // Scanned products fill an empty row or bump the quantity of an existing one.
+  // A scanned serial number also picks that unit.
+  const addScannedProduct = (product: Product, serialNumber?: string) => {
+    const existingIndex = orderItems.findIndex(item => item.productId === product.id);
+    if (existingIndex >= 0 && product.serialTracked) {
+      const existing = orderItems[existingIndex];
+      if (serialNumber && !existing.serials.includes(serialNumber)) {
+        const picked = [...existing.serials, serialNumber];
+        setOrderItems(orderItems.map((item, i) => (
+          i === existingIndex ? { ...item, serials: picked, quantity: picked.length } : item
+        )));
+      }
+      return;
+    }
+    if (existingIndex >= 0) {
+      const existing = orderItems[existingIndex];
+      if (existing.quantity >= existing.availableStock) {
+        toast({
+          title: "Error",
+          description: `Not enough stock for ${product.name}. Available: ${existing.availableStock}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      updateOrderItem(existingIndex, "quantity", existing.quantity + 1);
+      return;
+    }
+
+    if (availableAt(product) <= 0) {
+      toast({
+        title: "Error",
+        description: `${product.name} is out of stock.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scannedItem = {
+      productId: product.id,
+      productName: product.name,
+      price: product.price,
+      availableStock: availableAt(product),
+      quantity: product.serialTracked ? (serialNumber ? 1 : 0) : 1,
+      serials: serialNumber ? [serialNumber] : [],
+    };
+    const emptyIndex = orderItems.findIndex(item => !item.productId);
+    setOrderItems(emptyIndex >= 0
+      ? orderItems.map((item, i) => (i === emptyIndex ? scannedItem : item))
+      : [...orderItems, scannedItem]);
+  };
+
+  // Keyboard-wedge scanners type the code followed by Enter
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+    setScanCode("");
+
+    // Variant groups are not sold directly; scan the variant's own code
+    const product = findProductByCode(products.filter(p => !hasVariants(p)), code);
+    const serial = !product && serials.find(s => s.serialNumber.toLowerCase() === code.toLowerCase());
+    const serialProduct = serial && products.find(p => p.id === serial.productId);
+    if (serial && serialProduct) {
+      addScannedProduct(serialProduct, serial.serialNumber);
+      return;
+    }
+    if (!product) {
+      toast({
+        title: "Error",
+        description: `No product or in-stock serial matches "${code}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    addScannedProduct(product);
+  };
+
   const calculateTotal = () => {
     return orderItems.reduce((total, item) => total + (item.price * item.quantity), 0);
   };
 
-  const validateOrder = () => {
+  // Drafts take no stock, so their quantities are only checked once they are placed
+  const validateOrder = (asDraft = false) => {
     for (const item of orderItems) {
       if (!item.productId) {
         toast({
@@ -137,7 +330,16 @@ export default function Orders() {
         });
         return false;
       }
-      if (item.quantity > item.availableStock) {
+      const product = products.find(p => p.id === item.productId);
+      if (product?.serialTracked && item.serials.length === 0) {
+        toast({
+          title: "Error",
+          description: `Please pick the serial number of each ${item.productName} sold.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      if (!asDraft && item.quantity > item.availableStock) {
         toast({
           title: "Error",
           description: `Not enough stock for ${item.productName}. Available: ${item.availableStock}`,
@@ -157,24 +359,29 @@ export default function Orders() {
     return true;
   };
 
-  const handleSubmitOrder = async () => {
-    if (!validateOrder()) return;
+  const handleSubmitOrder = async (status: "draft" | "pending" = "pending") => {
+    if (!validateOrder(status === "draft")) return;
 
     const orderData = {
+      status,
       items: orderItems.map(item => ({
         productId: item.productId,
         quantity: item.quantity,
         price: item.price,
+        serials: item.serials.length > 0 ? item.serials : undefined,
       })) as OrderItem[],
       totalPrice: calculateTotal(),
+      customerId: customerId || undefined,
+      locationId: locationId || undefined,
     };
 
     try {
-      await orderApi.create(orderData);
+      const response = await orderApi.create(orderData);
       toast({
         title: "Success",
-        description: "Order placed successfully!",
+        description: status === "draft" ? "Order saved as a draft." : "Order placed successfully!",
       });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
       handleCloseModal();
       fetchOrders();
       fetchProducts(); // Refresh to get updated stock levels
@@ -182,19 +389,82 @@ export default function Orders() {
       console.error('Error creating order:', error);
       toast({
         title: "Error",
-        description: "Failed to place order. Please try again.",
+        // Kits and their components can be short even when each line fits
+        description: error instanceof InsufficientStockError
+          ? error.message
+          : `Failed to ${status === "draft" ? "save" : "place"} order. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePlaceDraft = async (order: OrderWithProducts) => {
+    try {
+      const response = await orderApi.place(order);
+      toast({
+        title: "Success",
+        description: `Order #${order.id?.slice(-8)} placed.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      fetchOrders();
+      fetchProducts(); // Refresh to get updated stock levels
+    } catch (error) {
+      console.error('Error placing order:', error);
+      toast({
+        title: "Error",
+        description: error instanceof InsufficientStockError || error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to place order. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStatusChange = async (order: OrderWithProducts, status: OrderStatus) => {
+    // Cancelling returns stock, so it goes through its own flow
+    if (status === "cancelled") {
+      setCancellingOrder(order);
+      return;
+    }
+    // Placing a draft takes its stock
+    if (order.status === "draft" && status === "pending") {
+      handlePlaceDraft(order);
+      return;
+    }
+
+    try {
+      await orderApi.updateStatus(order, status);
+      toast({
+        title: "Success",
+        description: `Order #${order.id?.slice(-8)} marked as ${orderStatusLabels[status].toLowerCase()}.`,
+      });
+      fetchOrders();
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof OrderTransitionError
+          ? error.message
+          : "Failed to update order status. Please try again.",
         variant: "destructive",
       });
     }
   };
 
+  const customerName = (id?: string) => customers.find(customer => customer.id === id)?.name;
+
+  const filteredOrders = statusFilter === "all"
+    ? orders
+    : orders.filter(order => order.status === statusFilter);
+
   const availableProducts = (currentProductId?: string) => {
     const selectedProductIds = orderItems
       .map(item => item.productId)
       .filter(id => id && id !== currentProductId);
     
     return products.filter(product => 
-      product.stock > 0 && 
+      availableAt(product) > 0 && 
+      !hasVariants(product) && 
       !selectedProductIds.includes(product.id!)
     );
   };
@@ -220,6 +490,45 @@ export default function Orders() {
             </DialogHeader>
             
             <div className="space-y-6">
+              {/* Customer */}
+              <div className="space-y-2">
+                <Label htmlFor="order-customer" className="text-base font-medium">Customer</Label>
+                <Select
+                  value={customerId || "walk-in"}
+                  onValueChange={(value) => setCustomerId(value === "walk-in" ? "" : value)}
+                >
+                  <SelectTrigger id="order-customer">
+                    <SelectValue placeholder="Select customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="walk-in">Walk-in customer</SelectItem>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.name}{customer.email ? ` (${customer.email})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {locations.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="order-location" className="text-base font-medium">Pick From</Label>
+                  <Select value={locationId} onValueChange={handleLocationChange}>
+                    <SelectTrigger id="order-location">
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Order Items */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -229,68 +538,98 @@ export default function Orders() {
                     Add Item
                   </Button>
                 </div>
+
+                <div className="relative">
+                  <ScanBarcode className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    onKeyDown={handleScanKeyDown}
+                    placeholder="Scan or type a barcode, SKU or serial number and press Enter"
+                    className="pl-8"
+                    aria-label="Scan barcode"
+                    autoFocus
+                  />
+                </div>
                 
-                {orderItems.map((item, index) => (
-                  <Card key={index} className="p-4">
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                      <div className="md:col-span-2">
-                        <Label htmlFor={`product-${index}`}>Product</Label>
-                        <Select
-                          value={item.productId}
-                          onValueChange={(value) => updateOrderItem(index, "productId", value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select product" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {availableProducts(item.productId).map((product) => (
-                              <SelectItem key={product.id} value={product.id!}>
-                                {product.name} - ${product.price.toFixed(2)} (Stock: {product.stock})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
+                {orderItems.map((item, index) => {
+                  const serialTracked = !!products.find(p => p.id === item.productId)?.serialTracked;
+                  return (
+                    <Card key={index} className="p-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div className="md:col-span-2">
+                          <Label htmlFor={`product-${index}`}>Product</Label>
+                          <Select
+                            value={item.productId}
+                            onValueChange={(value) => updateOrderItem(index, "productId", value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select product" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {availableProducts(item.productId).map((product) => (
+                                <SelectItem key={product.id} value={product.id!}>
+                                  {product.name} - ${product.price.toFixed(2)} (Stock: {availableAt(product)})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       
-                      <div>
-                        <Label htmlFor={`quantity-${index}`}>Quantity</Label>
-                        <Input
-                          id={`quantity-${index}`}
-                          type="number"
-                          min="1"
-                          max={item.availableStock}
-                          value={item.quantity}
-                          onChange={(e) => updateOrderItem(index, "quantity", parseInt(e.target.value) || 1)}
-                        />
-                        {item.availableStock > 0 && (
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Max: {item.availableStock}
-                          </p>
-                        )}
-                      </div>
+                        <div>
+                          <Label htmlFor={`quantity-${index}`}>Quantity</Label>
+                          <Input
+                            id={`quantity-${index}`}
+                            type="number"
+                            min="1"
+                            max={item.availableStock}
+                            value={item.quantity}
+                            disabled={serialTracked}
+                            onChange={(e) => updateOrderItem(index, "quantity", parseInt(e.target.value) || 1)}
+                          />
+                          {item.availableStock > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Max: {item.availableStock}
+                            </p>
+                          )}
+                        </div>
                       
-                      <div className="flex items-end">
-                        <div className="flex-1">
-                          <Label>Subtotal</Label>
-                          <p className="text-lg font-semibold">
-                            ${(item.price * item.quantity).toFixed(2)}
-                          </p>
+                        <div className="flex items-end">
+                          <div className="flex-1">
+                            <Label>Subtotal</Label>
+                            <p className="text-lg font-semibold">
+                              ${(item.price * item.quantity).toFixed(2)}
+                            </p>
+                          </div>
+                          {orderItems.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeOrderItem(index)}
+                              className="text-destructive hover:text-destructive ml-2"
+                            >
+                              Remove
+                            </Button>
+                          )}
                         </div>
-                        {orderItems.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeOrderItem(index)}
-                            className="text-destructive hover:text-destructive ml-2"
-                          >
-                            Remove
-                          </Button>
-                        )}
                       </div>
-                    </div>
-                  </Card>
-                ))}
+                      {serialTracked && (
+                        <div className="mt-4 space-y-2">
+                          <Label>Serial Numbers</Label>
+                          <SerialPicker
+                            id={`order-serial-${index}`}
+                            serials={serialsInStock(item.productId)}
+                            value={item.serials}
+                            onChange={(value) => setOrderItems(orderItems.map((orderItem, i) => (
+                              i === index ? { ...orderItem, serials: value, quantity: value.length } : orderItem
+                            )))}
+                          />
+                        </div>
+                      )}
+                    </Card>
+                  );
+                })}
               </div>
               
               {/* Order Summary */}
@@ -308,8 +647,15 @@ export default function Orders() {
                 <Button type="button" variant="outline" onClick={handleCloseModal}>
                   Cancel
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleSubmitOrder("draft")}
+                  disabled={orderItems.some(item => !item.productId) || calculateTotal() === 0}
+                >
+                  Save as Draft
+                </Button>
                 <Button 
-                  onClick={handleSubmitOrder}
+                  onClick={() => handleSubmitOrder()}
                   disabled={orderItems.some(item => !item.productId) || calculateTotal() === 0}
                 >
                   Place Order
@@ -322,8 +668,18 @@ export default function Orders() {
 
       {/* Orders History */}
       <Card className="dashboard-card">
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <CardTitle>Order History</CardTitle>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | "all")}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="all">All ({orders.length})</TabsTrigger>
+              {(Object.keys(orderStatusLabels) as OrderStatus[]).map((status) => (
+                <TabsTrigger key={status} value={status}>
+                  {orderStatusLabels[status]} ({orders.filter(order => order.status === status).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -339,23 +695,37 @@ export default function Orders() {
               <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No orders found. Create your first order to get started.</p>
             </div>
+          ) : filteredOrders.length === 0 ? (
+            <div className="text-center py-8">
+              <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No {orderStatusLabels[statusFilter as OrderStatus].toLowerCase()} orders.</p>
+            </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Order ID</TableHead>
+                  <TableHead>Customer</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Items</TableHead>
                   <TableHead>Total</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {orders.map((order) => (
-                  <TableRow key={order.id} className="table-row">
+                {filteredOrders.map((order) => (
+                  <TableRow
+                    key={order.id}
+                    className="table-row cursor-pointer"
+                    onClick={() => navigate(`/orders/${order.id}`)}
+                  >
                     <TableCell>
                       <span className="font-medium">#{order.id?.slice(-8)}</span>
                     </TableCell>
+                    <TableCell>
+                      {customerName(order.customerId) || <span className="text-muted-foreground">Walk-in</span>}
+                    </TableCell>
                     <TableCell>
                       {order.createdAt && formatDistanceToNow(new Date(order.createdAt), { addSuffix: true })}
                     </TableCell>
@@ -365,6 +735,9 @@ export default function Orders() {
                           <div key={index} className="text-sm">
                             <span className="font-medium">{item.productName}</span>
                             <span className="text-muted-foreground"> × {item.quantity}</span>
+                            {!!item.cancelledQuantity && (
+                              <span className="text-destructive"> ({item.cancelledQuantity} cancelled)</span>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -375,7 +748,37 @@ export default function Orders() {
                       </span>
                     </TableCell>
                     <TableCell>
-                      <Badge variant="secondary">Completed</Badge>
+                      <OrderStatusBadge status={order.status} />
+                    </TableCell>
+                    <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                      {order.status && (orderStatusTransitions[order.status].length > 0 || returnableStatuses.includes(order.status)) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button size="sm" variant="outline" className="gap-1">
+                              Actions
+                              <ChevronDown className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {orderStatusTransitions[order.status].length > 0 && (
+                              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                            )}
+                            {orderStatusTransitions[order.status].map((status) => (
+                              <DropdownMenuItem key={status} onClick={() => handleStatusChange(order, status)}>
+                                {orderStatusLabels[status]}
+                              </DropdownMenuItem>
+                            ))}
+                            {returnableStatuses.includes(order.status) && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => setReturningOrder(order)}>
+                                  Return items
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -384,6 +787,21 @@ export default function Orders() {
           )}
         </CardContent>
       </Card>
+
+      <CancelOrderDialog
+        order={cancellingOrder}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        onCancelled={() => {
+          fetchOrders();
+          fetchProducts(); // Refresh to pick up restocked levels
+        }}
+      />
+
+      <CreateReturnDialog
+        order={returningOrder}
+        onOpenChange={(open) => !open && setReturningOrder(null)}
+        onReturned={fetchProducts}
+      />
     </div>
   );
 }
\ No newline at end of file
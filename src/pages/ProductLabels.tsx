@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { productApi, Product } from "@/services/api";
+import { labelBarcode } from "@/lib/barcode";
+import { isLabelLayoutId, labelLayouts, paginateLabels } from "@/lib/label-layouts";
+import { BarcodeSvg } from "@/components/products/BarcodeSvg";
+import { useToast } from "@/hooks/use-toast";
+
+// Selection arrives as "productId:count,productId:count"
+const parseItems = (value: string | null) =>
+  (value || "")
+    .split(",")
+    .map(entry => entry.split(":"))
+    .map(([productId, count]) => ({ productId, count: parseInt(count) || 0 }))
+    .filter(item => item.productId && item.count > 0);
+
+export default function ProductLabels() {
+  const [searchParams] = useSearchParams();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const layoutParam = searchParams.get("layout");
+  const layout = labelLayouts[isLabelLayoutId(layoutParam) ? layoutParam : "avery-5160"];
+  const items = parseItems(searchParams.get("items"));
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  const fetchProducts = async () => {
+    try {
+      setLoading(true);
+      const response = await productApi.getAll();
+      setProducts(response.data);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load products. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-muted-foreground">Loading…</p>
+      </div>
+    );
+  }
+
+  const labels = items.flatMap(({ productId, count }) => {
+    const product = products.find(p => p.id === productId);
+    return product ? Array.from({ length: count }, () => product) : [];
+  });
+  const pages = paginateLabels(labels, layout);
+  const mm = (value: number) => `${value}mm`;
+
+  return (
+    <div className="min-h-screen bg-muted/40 print:bg-white">
+      {/* Sheets are printed edge to edge at their real size */}
+      <style>{`@media print { @page { size: ${mm(layout.pageWidth)} ${mm(layout.pageHeight)}; margin: 0; } }`}</style>
+
+      {/* Toolbar */}
+      <div className="no-print flex items-center justify-between max-w-3xl mx-auto px-6 py-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+          <Link to="/products">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Products
+          </Link>
+        </Button>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-muted-foreground">
+            {labels.length} {labels.length === 1 ? "label" : "labels"} · {layout.name}
+          </span>
+          <Button size="sm" className="gap-2" onClick={() => window.print()} disabled={labels.length === 0}>
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {labels.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No labels selected.</p>
+      ) : (
+        <div className="flex flex-col items-center gap-6 pb-10 print:block print:p-0">
+          {pages.map((page, pageIndex) => (
+            <div
+              key={pageIndex}
+              className="relative bg-white text-black shadow-sm overflow-hidden print:shadow-none"
+              style={{
+                width: mm(layout.pageWidth),
+                height: mm(layout.pageHeight),
+                breakAfter: pageIndex < pages.length - 1 ? "page" : undefined,
+              }}
+            >
+              {page.map((product, index) => {
+                const column = index % layout.columns;
+                const row = Math.floor(index / layout.columns);
+                const barcode = labelBarcode(product);
+                return (
+                  <div
+                    key={index}
+                    className="absolute flex flex-col items-center justify-center text-center"
+                    style={{
+                      left: mm(layout.marginLeft + column * (layout.labelWidth + layout.columnGap)),
+                      top: mm(layout.marginTop + row * (layout.labelHeight + layout.rowGap)),
+                      width: mm(layout.labelWidth),
+                      height: mm(layout.labelHeight),
+                      padding: mm(layout.labelHeight * 0.08),
+                      fontSize: mm(layout.labelHeight * 0.11),
+                      lineHeight: 1.15,
+                    }}
+                  >
+                    <p className="font-semibold w-full truncate">{product.name}</p>
+                    <p className="font-bold">${product.price.toFixed(2)}</p>
+                    {barcode && (
+                      <>
+                        <BarcodeSvg
+                          code={barcode.code}
+                          format={barcode.format}
+                          className="w-full flex-1 min-h-0"
+                        />
+                        <p className="font-mono" style={{ fontSize: mm(layout.labelHeight * 0.08) }}>
+                          {barcode.code}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,23 @@
 import { useEffect, useState } from "react";
-import { Plus, Pencil, Trash2, AlertTriangle, Package } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  AlertTriangle,
+  Package,
+  History,
+  SlidersHorizontal,
+  Search,
+  Tag,
+  ChevronRight,
+  CornerDownRight,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -32,7 +47,60 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { productApi, Product } from "@/services/api";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  productApi,
+  stockMovementApi,
+  supplierApi,
+  purchaseOrderApi,
+  categoryApi,
+  locationApi,
+  transferApi,
+  onOrderQuantities,
+  settledData,
+  inTransitQuantities,
+  categoryDescendantIds,
+  categoryLabel,
+  hasVariants,
+  isBundle,
+  isLowStock,
+  shortComponents,
+  locationBreakdown,
+  locationLabel,
+  lowStockLocationIds,
+  variantLabel,
+  parseVariantValues,
+  expiringLots,
+  fefoOrder,
+  unitCost,
+  foreignCostSupplier,
+  averageCost,
+  bundleCost,
+  marginPercent,
+  BarcodeFormat,
+  Category,
+  Product,
+  StockLocation,
+  Supplier,
+} from "@/services/api";
+import { StockHistoryDialog } from "@/components/products/StockHistoryDialog";
+import { StockAdjustmentDialog } from "@/components/products/StockAdjustmentDialog";
+import { PrintLabelsDialog } from "@/components/products/PrintLabelsDialog";
+import { CategorySelect } from "@/components/categories/CategorySelect";
+import { ProductSuppliersField, ProductSupplierFormItem } from "@/components/products/ProductSuppliersField";
+import { VariantAxesField, VariantAxisFormItem } from "@/components/products/VariantAxesField";
+import { BundleComponentsField, BundleComponentFormItem } from "@/components/products/BundleComponentsField";
+import { LocationStockField, LocationStockFormItem } from "@/components/products/LocationStockField";
+import { LotsField, LotFormItem } from "@/components/products/LotsField";
+import { barcodeError, barcodeFormatLabels, detectBarcodeFormat, findProductByCode } from "@/lib/barcode";
+import { getCurrentUser } from "@/lib/current-user";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
@@ -41,24 +109,78 @@ export default function Products() {
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [onOrder, setOnOrder] = useState<Record<string, number>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [inTransit, setInTransit] = useState<Record<string, number>>({});
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     price: "",
+    costPrice: "",
     stock: "",
     lowStockThreshold: "",
+    sku: "",
+    barcode: "",
+    barcodeFormat: "code128" as BarcodeFormat,
+    categoryId: "",
+    suppliers: [] as ProductSupplierFormItem[],
+    optionAxes: [] as VariantAxisFormItem[],
+    components: [] as BundleComponentFormItem[],
+    locationStock: [] as LocationStockFormItem[],
+    lotTracked: false,
+    lots: [] as LotFormItem[],
+    serialTracked: false,
   });
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const highlightedId = searchParams.get("highlight");
+  const [categoryFilter, setCategoryFilter] = useState(searchParams.get("category") || "");
   const { toast } = useToast();
 
   useEffect(() => {
     fetchProducts();
   }, []);
 
+  // Bring a product linked from elsewhere (e.g. an order) into view
+  useEffect(() => {
+    if (!loading && highlightedId) {
+      document.getElementById(`product-${highlightedId}`)?.scrollIntoView({ block: "center" });
+    }
+  }, [loading, highlightedId]);
+
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const response = await productApi.getAll();
-      setProducts(response.data);
+      // Only the products are essential; the other details fill in when they load
+      const [productsRes, suppliersRes, purchaseOrdersRes, categoriesRes, locationsRes, transfersRes] = await Promise.allSettled([
+        productApi.getAll(),
+        supplierApi.getAll(),
+        purchaseOrderApi.getAll(),
+        categoryApi.getAll(),
+        locationApi.getAll(),
+        transferApi.getAll(),
+      ]);
+      if (productsRes.status === "rejected") throw productsRes.reason;
+      setProducts(productsRes.value.data);
+      setSuppliers(settledData(suppliersRes, []));
+      setOnOrder(onOrderQuantities(settledData(purchaseOrdersRes, [])));
+      setCategories(settledData(categoriesRes, []));
+      setLocations(settledData(locationsRes, []));
+      setInTransit(inTransitQuantities(settledData(transfersRes, [])));
+      if ([suppliersRes, purchaseOrdersRes, categoriesRes, locationsRes, transfersRes].some(result => result.status === "rejected")) {
+        toast({
+          title: "Error",
+          description: "Some supplier, purchase order, category or location details could not be loaded.",
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error fetching products:', error);
       toast({
@@ -77,9 +199,44 @@ export default function Products() {
       setFormData({
         name: product.name,
         description: product.description || "",
-        price: product.price.toString(),
+        // Variants edit their override; blank means the group price
+        price: product.parentId
+          ? (product.priceOverride != null ? product.priceOverride.toString() : "")
+          : product.price.toString(),
+        costPrice: product.costPrice != null ? product.costPrice.toString() : "",
         stock: product.stock.toString(),
         lowStockThreshold: product.lowStockThreshold.toString(),
+        sku: product.sku || "",
+        barcode: product.barcode || "",
+        barcodeFormat: product.barcodeFormat || (product.barcode ? detectBarcodeFormat(product.barcode) : "code128"),
+        categoryId: product.categoryId || "",
+        suppliers: (product.suppliers || []).map(link => ({
+          supplierId: link.supplierId,
+          supplierSku: link.supplierSku || "",
+          cost: link.cost.toString(),
+          preferred: !!link.preferred,
+        })),
+        optionAxes: (product.optionAxes || []).map(axis => ({
+          name: axis.name,
+          values: axis.values.join(", "),
+        })),
+        components: (product.components || []).map(component => ({
+          productId: component.productId,
+          quantity: component.quantity.toString(),
+        })),
+        locationStock: locationBreakdown(product, locations).map(entry => ({
+          locationId: entry.locationId,
+          stock: entry.stock.toString(),
+          lowStockThreshold: entry.lowStockThreshold != null ? entry.lowStockThreshold.toString() : "",
+        })),
+        lotTracked: !!product.lotTracked,
+        lots: (product.lots || []).map(lot => ({
+          lotNumber: lot.lotNumber,
+          receivedDate: lot.receivedDate.slice(0, 10),
+          expiryDate: lot.expiryDate ? lot.expiryDate.slice(0, 10) : "",
+          quantity: lot.quantity.toString(),
+        })),
+        serialTracked: !!product.serialTracked,
       });
     } else {
       setEditingProduct(null);
@@ -87,8 +244,20 @@ export default function Products() {
         name: "",
         description: "",
         price: "",
+        costPrice: "",
         stock: "",
         lowStockThreshold: "",
+        sku: "",
+        barcode: "",
+        barcodeFormat: "code128" as BarcodeFormat,
+        categoryId: "",
+        suppliers: [] as ProductSupplierFormItem[],
+        optionAxes: [] as VariantAxisFormItem[],
+        components: [] as BundleComponentFormItem[],
+        locationStock: locations.map(location => ({ locationId: location.id, stock: "", lowStockThreshold: "" })),
+        lotTracked: false,
+        lots: [] as LotFormItem[],
+        serialTracked: false,
       });
     }
     setIsModalOpen(true);
@@ -101,15 +270,52 @@ export default function Products() {
       name: "",
       description: "",
       price: "",
+      costPrice: "",
       stock: "",
       lowStockThreshold: "",
+      sku: "",
+      barcode: "",
+      barcodeFormat: "code128" as BarcodeFormat,
+      categoryId: "",
+      suppliers: [] as ProductSupplierFormItem[],
+      optionAxes: [] as VariantAxisFormItem[],
+      components: [] as BundleComponentFormItem[],
+      locationStock: [] as LocationStockFormItem[],
+      lotTracked: false,
+      lots: [] as LotFormItem[],
+      serialTracked: false,
     });
   };
 
+  const variantsOf = (groupId: string) => products.filter(product => product.parentId === groupId);
+
+  const editingVariant = !!editingProduct?.parentId;
+  const editingParent = editingVariant ? products.find(product => product.id === editingProduct?.parentId) : undefined;
+  // Groups hold no stock themselves; it lives on their variants
+  const isGroupForm = !editingVariant && formData.optionAxes.length > 0;
+  // Kits derive their stock from their components
+  const isBundleForm = !editingVariant && formData.components.length > 0;
+  const storesStock = !isGroupForm && !isBundleForm;
+  // Lot-tracked stock is entered per lot and the total is their sum
+  const usesLots = storesStock && formData.lotTracked;
+  // Serial-tracked stock is the units received with a serial number, so it is not typed in
+  const usesSerials = storesStock && !usesLots && formData.serialTracked;
+  // With locations, stock is entered per location and the total is their sum
+  const usesLocations = storesStock && !usesLots && !usesSerials && formData.locationStock.length > 0;
+  // Kits are made of plain products, never of groups, other kits or serial-tracked units
+  const componentCandidates = products.filter(product =>
+    product.id !== editingProduct?.id && !hasVariants(product) && !isBundle(product) && !product.serialTracked
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.name || !formData.price || !formData.stock || !formData.lowStockThreshold) {
+    if (
+      !formData.name ||
+      (!editingVariant && !formData.price) ||
+      (storesStock && !editingProduct && !usesLocations && !usesLots && !usesSerials && !formData.stock) ||
+      !formData.lowStockThreshold
+    ) {
       toast({
         title: "Error",
         description: "Please fill in all required fields.",
@@ -118,27 +324,250 @@ export default function Products() {
       return;
     }
 
-    const productData = {
+    const sku = formData.sku.trim();
+    const barcode = formData.barcode.trim();
+    const otherProducts = products.filter(product => product.id !== editingProduct?.id);
+
+    const skuOwner = sku && otherProducts.find(product => product.sku?.toLowerCase() === sku.toLowerCase());
+    if (skuOwner) {
+      toast({
+        title: "Error",
+        description: `SKU ${sku} is already used by ${skuOwner.name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidBarcode = barcode && barcodeError(barcode, formData.barcodeFormat);
+    if (invalidBarcode) {
+      toast({
+        title: "Error",
+        description: invalidBarcode,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const barcodeOwner = barcode && otherProducts.find(product => product.barcode === barcode);
+    if (barcodeOwner) {
+      toast({
+        title: "Error",
+        description: `Barcode ${barcode} is already used by ${barcodeOwner.name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.suppliers.some(link => !link.supplierId)) {
+      toast({
+        title: "Error",
+        description: "Please select a supplier for each supplier row.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const optionAxes = formData.optionAxes.map(axis => ({
+      name: axis.name.trim(),
+      values: parseVariantValues(axis.values),
+    }));
+    if (isGroupForm) {
+      if (optionAxes.some(axis => !axis.name || axis.values.length === 0)) {
+        toast({
+          title: "Error",
+          description: "Please give each variant option a name and at least one value.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (new Set(optionAxes.map(axis => axis.name.toLowerCase())).size !== optionAxes.length) {
+        toast({
+          title: "Error",
+          description: "Variant option names must be unique.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (editingProduct && !hasVariants(editingProduct) && editingProduct.stock !== 0) {
+        toast({
+          title: "Error",
+          description: "Adjust this product's stock to zero before splitting it into variants.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const components = formData.components.map(component => ({
+      productId: component.productId,
+      quantity: parseInt(component.quantity) || 0,
+    }));
+    if (isBundleForm) {
+      if (components.some(component => !component.productId || component.quantity < 1)) {
+        toast({
+          title: "Error",
+          description: "Please select a product and a quantity of at least 1 for each kit component.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (editingProduct && !isBundle(editingProduct) && editingProduct.stock !== 0) {
+        toast({
+          title: "Error",
+          description: "Adjust this product's stock to zero before turning it into a kit.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const usedInKit = editingProduct && !storesStock &&
+      products.find(product => product.components?.some(component => component.productId === editingProduct.id));
+    if (usedInKit) {
+      toast({
+        title: "Error",
+        description: `This product is a component of ${usedInKit.name}, so it must keep its own stock.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (usesSerials && editingProduct && !editingProduct.serialTracked) {
+      const kit = products.find(product => product.components?.some(component => component.productId === editingProduct.id));
+      if (kit) {
+        toast({
+          title: "Error",
+          description: `This product is a component of ${kit.name}, so its units cannot be serial tracked.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (editingProduct.stock !== 0) {
+        toast({
+          title: "Error",
+          description: "Adjust this product's stock to zero before tracking serial numbers, then receive its units with their serials.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (usesLots && editingProduct && !editingProduct.lotTracked && editingProduct.stock !== 0) {
+      toast({
+        title: "Error",
+        description: "Adjust this product's stock to zero before tracking lots, then receive or adjust its units into lots.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lots = formData.lots.map(lot => ({
+      lotNumber: lot.lotNumber.trim(),
+      receivedDate: lot.receivedDate,
+      expiryDate: lot.expiryDate || null,
+      quantity: parseInt(lot.quantity) || 0,
+    }));
+    if (usesLots) {
+      if (lots.some(lot => !lot.lotNumber || !lot.receivedDate)) {
+        toast({
+          title: "Error",
+          description: "Please give each lot a lot number and a received date.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (new Set(lots.map(lot => lot.lotNumber.toLowerCase())).size !== lots.length) {
+        toast({
+          title: "Error",
+          description: "Lot numbers must be unique.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const priceOverride = formData.price ? parseFloat(formData.price) : null;
+    const locationStock = formData.locationStock.map(entry => ({
+      locationId: entry.locationId,
+      stock: parseInt(entry.stock) || 0,
+      lowStockThreshold: entry.lowStockThreshold ? parseInt(entry.lowStockThreshold) : null,
+    }));
+
+    const details = {
       name: formData.name,
       description: formData.description,
-      price: parseFloat(formData.price),
-      stock: parseInt(formData.stock),
+      price: editingVariant
+        ? priceOverride ?? editingParent?.price ?? editingProduct!.price
+        : parseFloat(formData.price),
+      // Groups and kits take their cost from their variants and components
+      costPrice: storesStock && formData.costPrice ? parseFloat(formData.costPrice) : null,
+      lotTracked: usesLots,
+      serialTracked: usesSerials,
       lowStockThreshold: parseInt(formData.lowStockThreshold),
+      sku: sku || undefined,
+      barcode: barcode || undefined,
+      barcodeFormat: barcode ? formData.barcodeFormat : undefined,
+      // Variants always follow their group's category
+      categoryId: editingVariant ? editingProduct!.categoryId ?? null : formData.categoryId || null,
+      suppliers: formData.suppliers.map(link => ({
+        supplierId: link.supplierId,
+        supplierSku: link.supplierSku.trim() || undefined,
+        cost: parseFloat(link.cost) || 0,
+        preferred: link.preferred,
+      })),
+      ...(editingVariant
+        ? { priceOverride }
+        : { optionAxes: isGroupForm ? optionAxes : undefined, components: isBundleForm ? components : [] }),
     };
 
     try {
       if (editingProduct) {
-        await productApi.update(editingProduct.id!, productData);
+        const response = await productApi.update(editingProduct.id!, {
+          ...details,
+          // Lots and serials are not split across locations, so any earlier breakdown is dropped
+          locationThresholds: usesLocations
+            ? locationStock.map(({ locationId, lowStockThreshold }) => ({ locationId, lowStockThreshold }))
+            : usesLots || usesSerials ? [] : undefined,
+          lots: usesLots ? lots.map(({ lotNumber, receivedDate, expiryDate }) => ({ lotNumber, receivedDate, expiryDate })) : undefined,
+        });
+        const created = isGroupForm
+          ? await productApi.syncVariants(response.data, variantsOf(editingProduct.id))
+          : [];
         toast({
           title: "Success",
-          description: "Product updated successfully.",
+          description: `Product updated successfully.${created.length > 0 ? ` ${created.length} new variants created.` : ""}`,
         });
       } else {
-        await productApi.create(productData);
+        const stock = !storesStock
+          ? 0
+          : usesLots
+            ? lots.reduce((total, lot) => total + lot.quantity, 0)
+            : usesSerials
+              ? 0
+              : usesLocations
+                ? locationStock.reduce((total, entry) => total + entry.stock, 0)
+                : parseInt(formData.stock);
+        const response = await productApi.create({
+          ...details,
+          stock,
+          locationStock: usesLocations ? locationStock : undefined,
+          lots: usesLots ? lots : undefined,
+        });
+        const movement = { source: "manual-edit" as const, reason: "Initial stock", user: getCurrentUser() };
+        const recorded = usesLocations
+          ? await stockMovementApi.recordLocationChanges({ ...response.data, stock: 0 }, [], locationStock, movement)
+          : await stockMovementApi.recordChange({ ...response.data, stock: 0 }, stock, movement);
+        const created = isGroupForm ? await productApi.syncVariants(response.data, []) : [];
         toast({
           title: "Success",
-          description: "Product created successfully.",
+          description: `Product created successfully.${created.length > 0 ? ` ${created.length} variants created.` : ""}`,
         });
+        if (!recorded) toast(unrecordedHistoryToast([response.data.name]));
       }
       
       handleCloseModal();
@@ -153,8 +582,38 @@ export default function Products() {
     }
   };
 
+  // Kits that would lose a component if the product (or one of its variants) were deleted
+  const kitsUsing = (productId: string) => {
+    const ids = [productId, ...variantsOf(productId).map(variant => variant.id)];
+    return products.filter(product =>
+      product.components?.some(component => ids.includes(component.productId))
+    );
+  };
+
+  // The supplier whose foreign-currency cost was left out of a product's
+  // cost, or of one of a kit's components
+  const foreignCostOf = (item: Product) =>
+    isBundle(item)
+      ? (item.components || [])
+        .map(component => products.find(p => p.id === component.productId))
+        .map(component => component && foreignCostSupplier(component, suppliers))
+        .find(Boolean)
+      : foreignCostSupplier(item, suppliers);
+
   const handleDelete = async (productId: string) => {
+    const kits = kitsUsing(productId);
+    if (kits.length > 0) {
+      toast({
+        title: "Error",
+        description: `Remove this product from ${kits.map(kit => kit.name).join(", ")} before deleting it.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
+      // Deleting a group takes its variants with it
+      await Promise.all(variantsOf(productId).map(variant => productApi.delete(variant.id)));
       await productApi.delete(productId);
       toast({
         title: "Success",
@@ -171,7 +630,49 @@ export default function Products() {
     }
   };
 
-  const isLowStock = (product: Product) => product.stock <= product.lowStockThreshold;
+  // A scanner types the code and presses Enter; jump straight to an exact match
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    const match = findProductByCode(products, search);
+    if (match) {
+      setSearch("");
+      setSearchParams({ highlight: match.id });
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  // Filtering by a category includes its subcategories
+  const categoryIds = categoryFilter ? categoryDescendantIds(categories, categoryFilter) : null;
+  const matchesFilters = (product: Product) =>
+    (!categoryIds || (product.categoryId && categoryIds.has(product.categoryId))) &&
+    (!query ||
+      product.name.toLowerCase().includes(query) ||
+      product.sku?.toLowerCase().includes(query) ||
+      product.barcode?.includes(query));
+  // Variants are listed under their group, which matches when any variant does
+  const filteredProducts = products.filter(product =>
+    !product.parentId && (matchesFilters(product) || variantsOf(product.id).some(matchesFilters))
+  );
+
+  // Expanded groups show every variant; otherwise only variants found by a search or link
+  const visibleVariants = (group: Product) =>
+    variantsOf(group.id).filter(variant =>
+      expandedIds.includes(group.id) ||
+      (query && matchesFilters(variant)) ||
+      variant.id === highlightedId
+    );
+
+  const visibleRows = filteredProducts.flatMap(product => [product, ...visibleVariants(product)]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(expandedIds.includes(id) ? expandedIds.filter(expandedId => expandedId !== id) : [...expandedIds, id]);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const allSelected = visibleRows.length > 0 && visibleRows.every(product => selectedIds.includes(product.id));
 
   return (
     <div className="space-y-6">
@@ -181,101 +682,311 @@ export default function Products() {
           <h1 className="text-3xl font-bold text-foreground">Products</h1>
           <p className="text-muted-foreground">Manage your inventory products</p>
         </div>
-        <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => handleOpenModal()} className="gap-2">
-              <Plus className="h-4 w-4" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>
-                {editingProduct ? "Edit Product" : "Add New Product"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  placeholder="Enter product name"
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Enter product description"
-                  rows={3}
-                />
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsLabelsOpen(true)}
+            disabled={selectedIds.length === 0}
+            className="gap-2"
+          >
+            <Tag className="h-4 w-4" />
+            Print Labels{selectedIds.length > 0 && ` (${selectedIds.length})`}
+          </Button>
+          <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => handleOpenModal()} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md max-h-[80vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingVariant ? "Edit Variant" : editingProduct ? "Edit Product" : "Add New Product"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {editingVariant && editingProduct && (
+                  <p className="text-sm text-muted-foreground">
+                    Variant of {editingParent?.name || "a deleted product"}
+                    {editingProduct.options && ` · ${Object.entries(editingProduct.options).map(([axis, value]) => `${axis}: ${value}`).join(", ")}`}
+                  </p>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor="price">Price *</Label>
+                  <Label htmlFor="name">Name *</Label>
                   <Input
-                    id="price"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    placeholder="0.00"
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Enter product name"
                     required
                   />
                 </div>
+              
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Enter product description"
+                    rows={3}
+                  />
+                </div>
+              
+                {!editingVariant && (
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
+                    <CategorySelect
+                      id="category"
+                      categories={categories}
+                      value={formData.categoryId}
+                      onValueChange={(categoryId) => setFormData({ ...formData, categoryId })}
+                      emptyLabel="No category"
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="price">{editingVariant ? "Price Override" : "Price *"}</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      placeholder={editingVariant && editingParent ? editingParent.price.toFixed(2) : "0.00"}
+                      required={!editingVariant}
+                    />
+                  </div>
                 
+                  {storesStock && !usesLocations && !usesLots && !usesSerials && (
+                    <div className="space-y-2">
+                      <Label htmlFor="stock">{editingProduct ? "Stock" : "Stock *"}</Label>
+                      <Input
+                        id="stock"
+                        type="number"
+                        min="0"
+                        value={formData.stock}
+                        onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
+                        placeholder="0"
+                        disabled={!!editingProduct}
+                        required={!editingProduct}
+                      />
+                      {editingProduct && (
+                        <p className="text-xs text-muted-foreground">Change it with Adjust Stock so it is recorded.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {storesStock && (
+                  <div className="space-y-2">
+                    <Label htmlFor="cost-price">Cost Price</Label>
+                    <Input
+                      id="cost-price"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.costPrice}
+                      onChange={(e) => setFormData({ ...formData, costPrice: e.target.value })}
+                      placeholder="0.00"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {editingProduct && averageCost(editingProduct) !== null
+                        ? `Received stock has an average landed cost of $${averageCost(editingProduct)!.toFixed(2)}, which is used for margin and valuation.`
+                        : "Used for margin and valuation until stock is received on a purchase order."}
+                    </p>
+                  </div>
+                )}
+
+                {storesStock && !usesSerials && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="lot-tracked"
+                      checked={formData.lotTracked}
+                      onCheckedChange={(checked) => setFormData({
+                        ...formData,
+                        lotTracked: checked === true,
+                        // Carry the opening stock over as a first lot to be numbered
+                        lots: checked === true && !editingProduct && formData.lots.length === 0 && parseInt(formData.stock) > 0
+                          ? [{ lotNumber: "", receivedDate: new Date().toISOString().slice(0, 10), expiryDate: "", quantity: formData.stock }]
+                          : formData.lots,
+                      })}
+                    />
+                    <Label htmlFor="lot-tracked" className="font-normal">Track lots and expiry dates</Label>
+                  </div>
+                )}
+
+                {storesStock && !usesLots && (
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="serial-tracked"
+                        checked={formData.serialTracked}
+                        onCheckedChange={(checked) => setFormData({ ...formData, serialTracked: checked === true })}
+                      />
+                      <Label htmlFor="serial-tracked" className="font-normal">Track serial numbers</Label>
+                    </div>
+                    {usesSerials && (
+                      <p className="text-xs text-muted-foreground">
+                        Units are added by receiving them on a purchase order with their serial numbers
+                        {editingProduct ? ` (${editingProduct.stock} in stock).` : "."}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {usesLots && (
+                  <>
+                    <LotsField
+                      value={formData.lots}
+                      onChange={(value) => setFormData({ ...formData, lots: value })}
+                      quantityReadOnly={!!editingProduct}
+                    />
+                    {locations.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Lot-tracked stock is counted at {locations[0].name}.
+                      </p>
+                    )}
+                  </>
+                )}
+
+                {usesLocations && (
+                  <LocationStockField
+                    locations={locations}
+                    value={formData.locationStock}
+                    onChange={(value) => setFormData({ ...formData, locationStock: value })}
+                    stockReadOnly={!!editingProduct}
+                  />
+                )}
+              
                 <div className="space-y-2">
-                  <Label htmlFor="stock">Stock *</Label>
+                  <Label htmlFor="sku">SKU</Label>
                   <Input
-                    id="stock"
+                    id="sku"
+                    value={formData.sku}
+                    onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                    placeholder="e.g. TSHIRT-BLK-M"
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="barcode">Barcode</Label>
+                    <Input
+                      id="barcode"
+                      value={formData.barcode}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        barcode: e.target.value,
+                        barcodeFormat: detectBarcodeFormat(e.target.value.trim()),
+                      })}
+                      placeholder="Type or scan"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="barcode-format">Format</Label>
+                    <Select
+                      value={formData.barcodeFormat}
+                      onValueChange={(value) => setFormData({ ...formData, barcodeFormat: value as BarcodeFormat })}
+                    >
+                      <SelectTrigger id="barcode-format">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(barcodeFormatLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {formData.barcode.trim() && barcodeError(formData.barcode.trim(), formData.barcodeFormat) && (
+                  <p className="text-xs text-destructive -mt-2">
+                    {barcodeError(formData.barcode.trim(), formData.barcodeFormat)}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="threshold">
+                    {isGroupForm ? "Default Low Stock Threshold *" : "Low Stock Threshold *"}
+                  </Label>
+                  <Input
+                    id="threshold"
                     type="number"
                     min="0"
-                    value={formData.stock}
-                    onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                    placeholder="0"
+                    value={formData.lowStockThreshold}
+                    onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
+                    placeholder="5"
                     required
                   />
                 </div>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="threshold">Low Stock Threshold *</Label>
-                <Input
-                  id="threshold"
-                  type="number"
-                  min="0"
-                  value={formData.lowStockThreshold}
-                  onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
-                  placeholder="5"
-                  required
+
+                {!editingVariant && !isBundleForm && (
+                  <VariantAxesField
+                    value={formData.optionAxes}
+                    onChange={(value) => setFormData({ ...formData, optionAxes: value })}
+                    required={!!editingProduct && hasVariants(editingProduct)}
+                  />
+                )}
+
+                {!editingVariant && !isGroupForm && (
+                  <BundleComponentsField
+                    products={componentCandidates}
+                    value={formData.components}
+                    onChange={(value) => setFormData({ ...formData, components: value })}
+                  />
+                )}
+
+                <ProductSuppliersField
+                  suppliers={suppliers}
+                  value={formData.suppliers}
+                  onChange={(value) => setFormData({ ...formData, suppliers: value })}
                 />
-              </div>
               
-              <div className="flex justify-end gap-2 pt-4">
-                <Button type="button" variant="outline" onClick={handleCloseModal}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingProduct ? "Update" : "Create"} Product
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button type="button" variant="outline" onClick={handleCloseModal}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingProduct ? "Update" : "Create"} {editingVariant ? "Variant" : "Product"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Products Table */}
       <Card className="dashboard-card">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
           <CardTitle>All Products</CardTitle>
+          <div className="flex w-full max-w-lg gap-2">
+            <CategorySelect
+              categories={categories}
+              value={categoryFilter}
+              onValueChange={setCategoryFilter}
+              emptyLabel="All categories"
+              className="w-48 shrink-0"
+            />
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                placeholder="Search name, SKU or scan barcode"
+                className="pl-8"
+              />
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -291,96 +1002,290 @@ export default function Products() {
               <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No products found. Add your first product to get started.</p>
             </div>
+          ) : filteredProducts.length === 0 ? (
+            <div className="text-center py-8">
+              <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No products match the current filters.</p>
+            </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? visibleRows.map(p => p.id) : [])}
+                    />
+                  </TableHead>
                   <TableHead>Name</TableHead>
+                  <TableHead>Category</TableHead>
                   <TableHead>Price</TableHead>
+                  <TableHead>Margin</TableHead>
                   <TableHead>Stock</TableHead>
+                  <TableHead>On Order</TableHead>
                   <TableHead>Threshold</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {products.map((product) => (
-                  <TableRow 
-                    key={product.id} 
-                    className={cn(
-                      "table-row",
-                      isLowStock(product) && "low-stock-alert"
-                    )}
-                  >
-                    <TableCell>
-                      <div>
-                        <p className="font-medium">{product.name}</p>
-                        {product.description && (
-                          <p className="text-sm text-muted-foreground">
-                            {product.description}
+                {visibleRows.map((product) => {
+                  const isGroup = hasVariants(product);
+                  const kitShortages = isBundle(product) && isLowStock(product) ? shortComponents(product, products) : [];
+                  const variants = isGroup ? variantsOf(product.id) : [];
+                  const prices = variants.map(variant => variant.price);
+                  // A cost only known in a supplier's foreign currency gives no margin
+                  const foreignCost = isGroup ? undefined : foreignCostOf(product);
+                  const margins = (isGroup ? variants : [product])
+                    .filter(item => !foreignCostOf(item))
+                    .map(item => marginPercent(item.price, isBundle(item) ? bundleCost(item, products, suppliers) : unitCost(item, suppliers)))
+                    .filter((margin): margin is number => margin !== null);
+                  const groupLow = variants.some(isLowStock);
+                  const low = isLowStock(product) || groupLow;
+                  const usedInKits = kitsUsing(product.id);
+                  const lotsInStock = product.lotTracked ? fefoOrder((product.lots || []).filter(lot => lot.quantity > 0)) : [];
+                  return (
+                    <TableRow 
+                      key={product.id} 
+                      id={`product-${product.id}`}
+                      className={cn(
+                        "table-row",
+                        isLowStock(product) && "low-stock-alert",
+                        product.id === highlightedId && "ring-2 ring-inset ring-primary"
+                      )}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          aria-label={`Select ${product.name}`}
+                          checked={selectedIds.includes(product.id)}
+                          onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className={cn("flex items-start gap-2", product.parentId && "pl-6")}>
+                          {isGroup && (
+                            <button
+                              type="button"
+                              aria-label={expandedIds.includes(product.id) ? "Collapse variants" : "Expand variants"}
+                              onClick={() => toggleExpanded(product.id)}
+                              className="mt-0.5 text-muted-foreground hover:text-foreground"
+                            >
+                              <ChevronRight
+                                className={cn("h-4 w-4 transition-transform", expandedIds.includes(product.id) && "rotate-90")}
+                              />
+                            </button>
+                          )}
+                          {product.parentId && <CornerDownRight className="h-4 w-4 mt-0.5 text-muted-foreground" />}
+                          <div>
+                            <p className="font-medium">
+                              {product.parentId && product.options ? variantLabel(product.options) : product.name}
+                            </p>
+                            {isGroup && (
+                              <p className="text-xs text-muted-foreground">
+                                {variants.length} {variants.length === 1 ? "variant" : "variants"}
+                              </p>
+                            )}
+                            {isBundle(product) && (
+                              <p className="text-xs text-muted-foreground">
+                                Kit of {product.components!.length} {product.components!.length === 1 ? "product" : "products"}
+                              </p>
+                            )}
+                            {kitShortages.length > 0 && (
+                              <p className="text-xs text-destructive">
+                                Short: {kitShortages
+                                  .map(component => products.find(p => p.id === component.productId)?.name || "Deleted product")
+                                  .join(", ")}
+                              </p>
+                            )}
+                            {(product.sku || product.barcode) && (
+                              <p className="text-xs text-muted-foreground font-mono">
+                                {[product.sku, product.barcode].filter(Boolean).join(" · ")}
+                              </p>
+                            )}
+                            {product.description && (
+                              <p className="text-sm text-muted-foreground">
+                                {product.description}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {categoryLabel(categories, product.categoryId) || (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {isGroup && prices.length > 0 && Math.min(...prices) !== Math.max(...prices)
+                          ? `$${Math.min(...prices).toFixed(2)} – $${Math.max(...prices).toFixed(2)}`
+                          : `$${product.price.toFixed(2)}`}
+                      </TableCell>
+                      <TableCell className={cn(margins.some(margin => margin < 0) && "text-destructive")}>
+                        {margins.length === 0
+                          ? <span className="text-muted-foreground">—</span>
+                          : Math.min(...margins).toFixed(1) !== Math.max(...margins).toFixed(1)
+                            ? `${Math.min(...margins).toFixed(1)}% – ${Math.max(...margins).toFixed(1)}%`
+                            : `${margins[0].toFixed(1)}%`}
+                        {!isGroup && (
+                          <p className="text-xs text-muted-foreground whitespace-nowrap">
+                            {foreignCost
+                              ? `Cost in ${foreignCost.currency} not included`
+                              : `Cost $${(isBundle(product) ? bundleCost(product, products, suppliers) : unitCost(product, suppliers)).toFixed(2)}`}
                           </p>
                         )}
-                      </div>
-                    </TableCell>
-                    <TableCell>${product.price.toFixed(2)}</TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        {product.stock}
-                        {isLowStock(product) && (
-                          <AlertTriangle className="h-4 w-4 text-destructive" />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {isGroup ? variants.reduce((total, variant) => total + variant.stock, 0) : product.stock}
+                          {low && (
+                            <AlertTriangle className="h-4 w-4 text-destructive" />
+                          )}
+                        </div>
+                        {locations.length > 0 && !isGroup && !isBundle(product) && (
+                          <p className="text-xs text-muted-foreground whitespace-nowrap">
+                            {locationBreakdown(product, locations).map((entry, index) => (
+                              <span
+                                key={entry.locationId}
+                                className={cn(lowStockLocationIds(product).includes(entry.locationId) && "text-destructive")}
+                              >
+                                {index > 0 && " · "}
+                                {locationLabel(locations[index])} {entry.stock}
+                              </span>
+                            ))}
+                            {inTransit[product.id] > 0 && ` · In transit ${inTransit[product.id]}`}
+                          </p>
+                        )}
+                        {product.serialTracked && (
+                          <Link
+                            to={`/serials?product=${product.id}`}
+                            className="text-xs text-primary hover:underline whitespace-nowrap"
+                          >
+                            View serials
+                          </Link>
+                        )}
+                        {product.lotTracked && (
+                          <p
+                            className={cn(
+                              "text-xs text-muted-foreground whitespace-nowrap",
+                              expiringLots([product]).length > 0 && "text-destructive"
+                            )}
+                          >
+                            {lotsInStock.length} {lotsInStock.length === 1 ? "lot" : "lots"}
+                            {lotsInStock[0]?.expiryDate && ` · Next expiry ${format(new Date(lotsInStock[0].expiryDate), "MMM d, yyyy")}`}
+                          </p>
                         )}
-                      </div>
-                    </TableCell>
-                    <TableCell>{product.lowStockThreshold}</TableCell>
-                    <TableCell>
-                      <Badge 
-                        variant={isLowStock(product) ? "destructive" : "secondary"}
-                      >
-                        {isLowStock(product) ? "Low Stock" : "In Stock"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex justify-end gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleOpenModal(product)}
+                      </TableCell>
+                      <TableCell>
+                        {(isGroup
+                          ? variants.reduce((total, variant) => total + (onOrder[variant.id] || 0), 0)
+                          : onOrder[product.id]) || <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell>
+                        {isGroup ? <span className="text-muted-foreground">—</span> : product.lowStockThreshold}
+                      </TableCell>
+                      <TableCell>
+                        <Badge 
+                          variant={low ? "destructive" : "secondary"}
                         >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button size="sm" variant="outline" className="text-destructive hover:text-destructive">
-                              <Trash2 className="h-4 w-4" />
+                          {groupLow ? "Variants Low" : low ? "Low Stock" : "In Stock"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {!isGroup && !isBundle(product) && !product.serialTracked && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setAdjustingProduct(product)}
+                              title="Adjust stock"
+                            >
+                              <SlidersHorizontal className="h-4 w-4" />
                             </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Product</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete "{product.name}"? This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(product.id!)}
-                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                              >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                          )}
+                          {!isGroup && !isBundle(product) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setHistoryProduct(product)}
+                              title="Stock history"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleOpenModal(product)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline" className="text-destructive hover:text-destructive">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Product</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {usedInKits.length > 0 ? (
+                                    <>
+                                      "{product.name}" cannot be deleted while it is a component of{" "}
+                                      {usedInKits.map(kit => kit.name).join(", ")}.
+                                      Remove it from {usedInKits.length === 1 ? "that kit" : "those kits"} first.
+                                    </>
+                                  ) : (
+                                    <>
+                                      Are you sure you want to delete "{product.name}"
+                                      {isGroup && ` and its ${variants.length} ${variants.length === 1 ? "variant" : "variants"}`}?
+                                      This action cannot be undone.
+                                    </>
+                                  )}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                {usedInKits.length === 0 && (
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(product.id!)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                )}
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
+
+      <PrintLabelsDialog
+        open={isLabelsOpen}
+        products={products.filter(product => selectedIds.includes(product.id))}
+        onOpenChange={setIsLabelsOpen}
+      />
+
+      <StockHistoryDialog
+        product={historyProduct}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+      />
+
+      <StockAdjustmentDialog
+        product={adjustingProduct}
+        locations={locations}
+        onOpenChange={(open) => !open && setAdjustingProduct(null)}
+        onAdjusted={fetchProducts}
+      />
     </div>
   );
 }
\ No newline at end of file
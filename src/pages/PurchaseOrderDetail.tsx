@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, ClipboardList, PackageCheck, Pencil, Send, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  purchaseOrderApi,
+  productApi,
+  supplierApi,
+  locationApi,
+  openPurchaseOrderStatuses,
+  outstandingQuantity,
+  purchaseOrderTotal,
+  Product,
+  PurchaseOrder,
+  StockLocation,
+  Supplier,
+} from "@/services/api";
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/PurchaseOrderStatusBadge";
+import { PurchaseOrderDialog } from "@/components/purchase-orders/PurchaseOrderDialog";
+import { ReceiveGoodsDialog } from "@/components/purchase-orders/ReceiveGoodsDialog";
+import { useToast } from "@/hooks/use-toast";
+
+const formatDate = (value?: string) => value ? format(new Date(value), "MMM d, yyyy") : "—";
+
+export default function PurchaseOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPurchaseOrder();
+  }, [id]);
+
+  const fetchPurchaseOrder = async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const [purchaseOrderRes, suppliersRes, productsRes, locationsRes] = await Promise.all([
+        purchaseOrderApi.getById(id),
+        supplierApi.getAll(),
+        productApi.getAll(),
+        locationApi.getAll(),
+      ]);
+      setPurchaseOrder(purchaseOrderRes.data);
+      setSuppliers(suppliersRes.data);
+      setProducts(productsRes.data);
+      setLocations(locationsRes.data);
+    } catch (error) {
+      console.error('Error fetching purchase order:', error);
+      setPurchaseOrder(null);
+      toast({
+        title: "Error",
+        description: "Failed to load purchase order. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkOrdered = async () => {
+    if (!purchaseOrder) return;
+    try {
+      const response = await purchaseOrderApi.markOrdered(purchaseOrder.id);
+      setPurchaseOrder(response.data);
+      toast({
+        title: "Success",
+        description: "Purchase order marked as ordered.",
+      });
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark purchase order as ordered. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!purchaseOrder) return;
+    try {
+      const response = await purchaseOrderApi.cancel(purchaseOrder.id);
+      setPurchaseOrder(response.data);
+      toast({
+        title: "Success",
+        description: "Purchase order cancelled.",
+      });
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel purchase order. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const backLink = (
+    <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+      <Link to="/purchase-orders">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Purchase Orders
+      </Link>
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-48 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!purchaseOrder) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="text-center py-8">
+          <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Purchase order not found.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const supplier = suppliers.find(s => s.id === purchaseOrder.supplierId);
+  const isOpen = openPurchaseOrderStatuses.includes(purchaseOrder.status);
+  const canCancel = purchaseOrder.status === "draft" || isOpen;
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            Purchase Order #{purchaseOrder.id.slice(-8)}
+            <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+          </h1>
+          <p className="text-muted-foreground">
+            {supplier?.name || "Unknown supplier"}
+            {supplier?.email && ` · ${supplier.email}`}
+            {supplier?.phone && ` · ${supplier.phone}`}
+          </p>
+          <p className="text-muted-foreground text-sm">
+            Created {formatDate(purchaseOrder.createdAt)} · Ordered {formatDate(purchaseOrder.orderedAt)} ·
+            Expected {formatDate(purchaseOrder.expectedDate)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {purchaseOrder.status === "draft" && (
+            <>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsEditing(true)}>
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+              <Button size="sm" className="gap-2" onClick={handleMarkOrdered}>
+                <Send className="h-4 w-4" />
+                Mark as Ordered
+              </Button>
+            </>
+          )}
+          {isOpen && (
+            <Button size="sm" className="gap-2" onClick={() => setReceivingOrder(purchaseOrder)}>
+              <PackageCheck className="h-4 w-4" />
+              Receive Goods
+            </Button>
+          )}
+          {canCancel && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2 text-destructive hover:text-destructive">
+                  <XCircle className="h-4 w-4" />
+                  Cancel PO
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cancel purchase order?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Outstanding units will no longer be counted as on order. Units already received stay in stock.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleCancel}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Cancel PO
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </div>
+
+      {/* Lines */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>Lines</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Subtotal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchaseOrder.lines.map((line) => (
+                <TableRow key={line.productId} className="table-row">
+                  <TableCell>
+                    <Link
+                      to={`/products?highlight=${line.productId}`}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      {line.productName || line.productId}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{line.unitCost.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                  <TableCell className="text-right">{line.receivedQuantity}</TableCell>
+                  <TableCell className="text-right">
+                    {purchaseOrder.status === "cancelled" ? "—" : outstandingQuantity(line)}
+                  </TableCell>
+                  <TableCell className="text-right">{(line.unitCost * line.quantity).toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="font-semibold">Expected cost</TableCell>
+                <TableCell className="text-right font-semibold">
+                  {purchaseOrderTotal(purchaseOrder).toFixed(2)} {supplier?.currency}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {purchaseOrder.notes && (
+        <Card className="dashboard-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-wrap">{purchaseOrder.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <PurchaseOrderDialog
+        open={isEditing}
+        purchaseOrder={purchaseOrder}
+        suppliers={suppliers}
+        products={products}
+        onOpenChange={setIsEditing}
+        onSaved={setPurchaseOrder}
+      />
+
+      <ReceiveGoodsDialog
+        purchaseOrder={receivingOrder}
+        products={products}
+        supplier={supplier}
+        locations={locations}
+        onOpenChange={(open) => !open && setReceivingOrder(null)}
+        onReceived={setPurchaseOrder}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Plus, ClipboardList, PackageCheck } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  purchaseOrderApi,
+  productApi,
+  supplierApi,
+  locationApi,
+  purchaseOrderStatusLabels,
+  openPurchaseOrderStatuses,
+  purchaseOrderTotal,
+  Product,
+  PurchaseOrder,
+  StockLocation,
+  PurchaseOrderStatus,
+  Supplier,
+} from "@/services/api";
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/PurchaseOrderStatusBadge";
+import { PurchaseOrderDialog } from "@/components/purchase-orders/PurchaseOrderDialog";
+import { ReceiveGoodsDialog } from "@/components/purchase-orders/ReceiveGoodsDialog";
+import { useToast } from "@/hooks/use-toast";
+
+export default function PurchaseOrders() {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [searchParams] = useSearchParams();
+  const initialStatus = searchParams.get("status") as PurchaseOrderStatus | null;
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "all">(
+    initialStatus && initialStatus in purchaseOrderStatusLabels ? initialStatus : "all"
+  );
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPurchaseOrders();
+  }, []);
+
+  const fetchPurchaseOrders = async () => {
+    try {
+      setLoading(true);
+      const [purchaseOrdersRes, suppliersRes, productsRes, locationsRes] = await Promise.all([
+        purchaseOrderApi.getAll(),
+        supplierApi.getAll(),
+        productApi.getAll(),
+        locationApi.getAll(),
+      ]);
+      setPurchaseOrders(purchaseOrdersRes.data);
+      setSuppliers(suppliersRes.data);
+      setProducts(productsRes.data);
+      setLocations(locationsRes.data);
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load purchase orders. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const supplierOf = (id: string) => suppliers.find(supplier => supplier.id === id);
+
+  const filteredOrders = statusFilter === "all"
+    ? purchaseOrders
+    : purchaseOrders.filter(purchaseOrder => purchaseOrder.status === statusFilter);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Purchase Orders</h1>
+          <p className="text-muted-foreground">Order stock from suppliers and receive deliveries</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)} className="gap-2" disabled={suppliers.length === 0}>
+          <Plus className="h-4 w-4" />
+          New Purchase Order
+        </Button>
+      </div>
+
+      <Card className="dashboard-card">
+        <CardHeader className="space-y-4">
+          <CardTitle>All Purchase Orders</CardTitle>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | "all")}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="all">All ({purchaseOrders.length})</TabsTrigger>
+              {(Object.keys(purchaseOrderStatusLabels) as PurchaseOrderStatus[]).map((status) => (
+                <TabsTrigger key={status} value={status}>
+                  {purchaseOrderStatusLabels[status]} ({purchaseOrders.filter(po => po.status === status).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-16 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : filteredOrders.length === 0 ? (
+            <div className="text-center py-8">
+              <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                {purchaseOrders.length === 0
+                  ? suppliers.length === 0
+                    ? "Add a supplier before raising purchase orders."
+                    : "No purchase orders yet. Create one to restock from a supplier."
+                  : `No ${purchaseOrderStatusLabels[statusFilter as PurchaseOrderStatus].toLowerCase()} purchase orders.`}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredOrders.map((purchaseOrder) => {
+                  const supplier = supplierOf(purchaseOrder.supplierId);
+                  const ordered = purchaseOrder.lines.reduce((total, line) => total + line.quantity, 0);
+                  const received = purchaseOrder.lines.reduce((total, line) => total + line.receivedQuantity, 0);
+                  return (
+                    <TableRow
+                      key={purchaseOrder.id}
+                      className="table-row cursor-pointer"
+                      onClick={() => navigate(`/purchase-orders/${purchaseOrder.id}`)}
+                    >
+                      <TableCell>
+                        <span className="font-medium">#{purchaseOrder.id.slice(-8)}</span>
+                      </TableCell>
+                      <TableCell>{supplier?.name || <span className="text-muted-foreground">Unknown</span>}</TableCell>
+                      <TableCell>
+                        {purchaseOrder.createdAt && format(new Date(purchaseOrder.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        {purchaseOrder.expectedDate
+                          ? format(new Date(purchaseOrder.expectedDate), "MMM d, yyyy")
+                          : <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell>
+                        {received} / {ordered} units
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-semibold">
+                          {purchaseOrderTotal(purchaseOrder).toFixed(2)} {supplier?.currency}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+                      </TableCell>
+                      <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                        {openPurchaseOrderStatuses.includes(purchaseOrder.status) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-2"
+                            onClick={() => setReceivingOrder(purchaseOrder)}
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                            Receive
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderDialog
+        open={isModalOpen}
+        suppliers={suppliers}
+        products={products}
+        onOpenChange={setIsModalOpen}
+        onSaved={(purchaseOrder) => navigate(`/purchase-orders/${purchaseOrder.id}`)}
+      />
+
+      <ReceiveGoodsDialog
+        purchaseOrder={receivingOrder}
+        products={products}
+        supplier={receivingOrder ? supplierOf(receivingOrder.supplierId) : undefined}
+        locations={locations}
+        onOpenChange={(open) => !open && setReceivingOrder(null)}
+        onReceived={fetchPurchaseOrders}
+      />
+    </div>
+  );
+}
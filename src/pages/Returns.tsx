@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Undo2, DollarSign, PackageCheck, PackageX } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { returnApi, returnDispositionLabels, CustomerReturn, ReturnDisposition } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+const dispositionVariants: Record<ReturnDisposition, "secondary" | "outline" | "destructive"> = {
+  restock: "secondary",
+  quarantine: "outline",
+  scrap: "destructive",
+};
+
+export default function Returns() {
+  const [returns, setReturns] = useState<CustomerReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReturns();
+  }, []);
+
+  const fetchReturns = async () => {
+    try {
+      setLoading(true);
+      const response = await returnApi.getAll();
+      setReturns(response.data);
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load returns. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unitsWithDisposition = (disposition: ReturnDisposition) =>
+    returns.reduce(
+      (total, customerReturn) => total + customerReturn.items
+        .filter(item => item.disposition === disposition)
+        .reduce((sum, item) => sum + item.quantity, 0),
+      0
+    );
+
+  const summaryCards = [
+    {
+      title: "Total Returns",
+      value: returns.length,
+      icon: Undo2,
+      description: "Returns recorded",
+      color: "text-primary",
+    },
+    {
+      title: "Refunded",
+      value: `$${returns.reduce((total, customerReturn) => total + customerReturn.refundAmount, 0).toFixed(2)}`,
+      icon: DollarSign,
+      description: "At original sale prices",
+      color: "text-destructive",
+    },
+    {
+      title: "Units Restocked",
+      value: unitsWithDisposition("restock"),
+      icon: PackageCheck,
+      description: "Returned to sellable stock",
+      color: "text-success",
+    },
+    {
+      title: "Quarantined / Scrapped",
+      value: `${unitsWithDisposition("quarantine")} / ${unitsWithDisposition("scrap")}`,
+      icon: PackageX,
+      description: "Held back from stock",
+      color: "text-orange-500",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Returns</h1>
+        <p className="text-muted-foreground">Customer returns linked to their original orders</p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title} className="dashboard-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {card.title}
+              </CardTitle>
+              <card.icon className={`h-4 w-4 ${card.color}`} />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${card.color}`}>
+                {card.value}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {card.description}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Returns History */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>Return History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-16 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="text-center py-8">
+              <Undo2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No returns recorded. Start a return from an order's actions.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Return ID</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Refund</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.map((customerReturn) => (
+                  <TableRow key={customerReturn.id} className="table-row">
+                    <TableCell>
+                      <span className="font-medium">#{customerReturn.id.slice(-8)}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Link to={`/orders/${customerReturn.orderId}`} className="text-primary hover:underline">
+                        #{customerReturn.orderId.slice(-8)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {formatDistanceToNow(new Date(customerReturn.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {customerReturn.items.map((item, index) => (
+                          <div key={index} className="text-sm flex items-center gap-2">
+                            <span>
+                              <span className="font-medium">{item.productName}</span>
+                              <span className="text-muted-foreground"> × {item.quantity}</span>
+                            </span>
+                            <Badge variant={dispositionVariants[item.disposition]} className="text-xs">
+                              {returnDispositionLabels[item.disposition]}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{customerReturn.reason}</TableCell>
+                    <TableCell>
+                      <span className="font-semibold text-destructive">
+                        ${customerReturn.refundAmount.toFixed(2)}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
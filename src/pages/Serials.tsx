@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Hash, ScanBarcode, X } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  serialApi,
+  productApi,
+  customerApi,
+  serialEventLabels,
+  serialStatusLabels,
+  Customer,
+  Product,
+  SerialEvent,
+  SerialStatus,
+  SerialUnit,
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+const statusVariants: Record<SerialStatus, "secondary" | "default" | "destructive"> = {
+  "in-stock": "secondary",
+  sold: "default",
+  "written-off": "destructive",
+};
+
+export default function Serials() {
+  const [serials, setSerials] = useState<SerialUnit[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const productFilter = searchParams.get("product") || "";
+  const selectedId = searchParams.get("serial");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSerials();
+  }, []);
+
+  const fetchSerials = async () => {
+    try {
+      setLoading(true);
+      const [serialsRes, productsRes, customersRes] = await Promise.all([
+        serialApi.getAll(),
+        productApi.getAll(),
+        customerApi.getAll(),
+      ]);
+      setSerials(serialsRes.data);
+      setProducts(productsRes.data);
+      setCustomers(customersRes.data);
+    } catch (error) {
+      console.error('Error fetching serial numbers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load serial numbers. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  // Scanners type the serial followed by Enter; an exact match opens its history
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const code = search.trim().toLowerCase();
+    const match = serials.find(serial => serial.serialNumber.toLowerCase() === code);
+    if (!match) {
+      toast({
+        title: "Error",
+        description: `No unit has serial number "${search.trim()}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    updateParams({ serial: match.id });
+  };
+
+  const productName = (id: string) => products.find(product => product.id === id)?.name || "Unknown product";
+  const customerName = (id?: string) => customers.find(customer => customer.id === id)?.name;
+  const lastEvent = (serial: SerialUnit) => serial.history[serial.history.length - 1];
+
+  const referenceLink = (event: SerialEvent) => {
+    if (!event.referenceId) return null;
+    return event.type === "received"
+      ? <Link to={`/purchase-orders/${event.referenceId}`} className="text-primary hover:underline">PO #{event.referenceId.slice(-8)}</Link>
+      : <Link to={`/orders/${event.referenceId}`} className="text-primary hover:underline">Order #{event.referenceId.slice(-8)}</Link>;
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredSerials = serials.filter(serial =>
+    (!productFilter || serial.productId === productFilter) &&
+    (!query || serial.serialNumber.toLowerCase().includes(query))
+  );
+  const selected = serials.find(serial => serial.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Serial Numbers</h1>
+        <p className="text-muted-foreground">Look up where any serial-tracked unit came from and went</p>
+      </div>
+
+      {selected && (
+        <Card className="dashboard-card">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="font-mono">{selected.serialNumber}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                <Link to={`/products?highlight=${selected.productId}`} className="hover:underline">
+                  {productName(selected.productId)}
+                </Link>
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={statusVariants[selected.status]}>{serialStatusLabels[selected.status]}</Badge>
+              <Button size="sm" variant="outline" onClick={() => updateParams({ serial: null })} title="Close history">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selected.history.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">No history recorded for this unit.</p>
+            ) : (
+              <ol className="space-y-4 border-l pl-4">
+                {selected.history.map((event, index) => (
+                  <li key={index} className="relative">
+                    <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                    <p className="text-sm font-medium">{serialEventLabels[event.type]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(event.date), "MMM d, yyyy h:mm a")}
+                    </p>
+                    <p className="text-sm space-x-2">
+                      {referenceLink(event)}
+                      {event.customerId && (
+                        <Link to={`/customers/${event.customerId}`} className="text-primary hover:underline">
+                          {customerName(event.customerId) || "Customer"}
+                        </Link>
+                      )}
+                    </p>
+                    {event.note && <p className="text-sm text-muted-foreground">{event.note}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="dashboard-card">
+        <CardHeader className="space-y-4">
+          <CardTitle>All Units</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[240px]">
+              <ScanBarcode className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                placeholder="Scan or type a serial number and press Enter"
+                className="pl-8"
+                aria-label="Search serial numbers"
+                autoFocus
+              />
+            </div>
+            {productFilter && (
+              <Badge variant="outline" className="gap-1">
+                {productName(productFilter)}
+                <button type="button" onClick={() => updateParams({ product: null })} aria-label="Clear product filter">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : filteredSerials.length === 0 ? (
+            <div className="text-center py-8">
+              <Hash className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                {serials.length === 0
+                  ? "No serial numbers yet. They are recorded when serial-tracked products are received."
+                  : "No serial numbers match your search."}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serial Number</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSerials.map((serial) => {
+                  const event = lastEvent(serial);
+                  return (
+                    <TableRow
+                      key={serial.id}
+                      className={cn("table-row cursor-pointer", serial.id === selectedId && "bg-muted/50")}
+                      onClick={() => updateParams({ serial: serial.id })}
+                    >
+                      <TableCell className="font-mono font-medium">{serial.serialNumber}</TableCell>
+                      <TableCell>{productName(serial.productId)}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[serial.status]}>{serialStatusLabels[serial.status]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {(serial.status === "sold" && customerName(event?.customerId)) || (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {event ? (
+                          <>
+                            {serialEventLabels[event.type]}
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(event.date), "MMM d, yyyy")}
+                            </p>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, ClipboardCheck, Save, ScanBarcode, Upload, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  stocktakeApi,
+  productApi,
+  stocktakeVariance,
+  varianceValue,
+  Product,
+  Stocktake,
+  StocktakeLine,
+} from "@/services/api";
+import { StocktakeStatusBadge } from "@/components/stocktakes/StocktakeStatusBadge";
+import { findProductByCode } from "@/lib/barcode";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+type LineFilter = "all" | "uncounted" | "variances";
+
+const formatValue = (value: number) => `${value < 0 ? "−" : ""}$${Math.abs(value).toFixed(2)}`;
+
+export default function StocktakeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [lines, setLines] = useState<StocktakeLine[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [scanCode, setScanCode] = useState("");
+  const [lineFilter, setLineFilter] = useState<LineFilter>("all");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStocktake();
+  }, [id]);
+
+  const fetchStocktake = async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const [stocktakeRes, productsRes] = await Promise.all([
+        stocktakeApi.getById(id),
+        productApi.getAll(),
+      ]);
+      setStocktake(stocktakeRes.data);
+      setLines(stocktakeRes.data.lines);
+      setProducts(productsRes.data);
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Error fetching stocktake:', error);
+      setStocktake(null);
+      toast({
+        title: "Error",
+        description: "Failed to load stocktake. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLine = (productId: string, changes: Partial<StocktakeLine>) => {
+    setLines(lines.map(line => (line.productId === productId ? { ...line, ...changes } : line)));
+    setIsDirty(true);
+  };
+
+  // Each scan counts one unit of the scanned product
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+    setScanCode("");
+
+    const counted = products.filter(product => lines.some(line => line.productId === product.id));
+    const product = findProductByCode(counted, code);
+    if (!product) {
+      toast({
+        title: "Error",
+        description: `No product in this count matches barcode or SKU "${code}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const line = lines.find(l => l.productId === product.id)!;
+    updateLine(product.id, { countedQuantity: (line.countedQuantity ?? 0) + 1 });
+  };
+
+  const handleSave = async () => {
+    if (!stocktake) return;
+    try {
+      setSaving(true);
+      const response = await stocktakeApi.saveLines(stocktake.id, lines);
+      setStocktake(response.data);
+      setIsDirty(false);
+      toast({
+        title: "Success",
+        description: "Counts saved.",
+      });
+    } catch (error) {
+      console.error('Error saving counts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save counts. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!stocktake) return;
+    const posted = lines.filter(line => line.approved && stocktakeVariance(line)).length;
+    try {
+      setSaving(true);
+      const response = await stocktakeApi.post({ ...stocktake, lines });
+      setStocktake(response.data);
+      setLines(response.data.lines);
+      setIsDirty(false);
+      toast({
+        title: "Success",
+        description: `${posted} stock ${posted === 1 ? "adjustment" : "adjustments"} posted.`,
+      });
+    } catch (error) {
+      console.error('Error posting stocktake:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post adjustments. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake) return;
+    try {
+      const response = await stocktakeApi.cancel(stocktake.id);
+      setStocktake(response.data);
+      toast({
+        title: "Success",
+        description: "Stocktake cancelled. No stock was changed.",
+      });
+    } catch (error) {
+      console.error('Error cancelling stocktake:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel stocktake. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const backLink = (
+    <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+      <Link to="/stocktakes">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Stocktakes
+      </Link>
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-48 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <div className="text-center py-8">
+          <ClipboardCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Stocktake not found.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isCounting = stocktake.status === "counting";
+  const uncounted = lines.filter(line => stocktakeVariance(line) === null);
+  const varianceLines = lines.filter(line => stocktakeVariance(line));
+  const approvedLines = varianceLines.filter(line => line.approved);
+  const approvedValue = approvedLines.reduce((total, line) => total + varianceValue(line), 0);
+  const approvedUnits = approvedLines.reduce((total, line) => total + stocktakeVariance(line)!, 0);
+
+  const visibleLines = lineFilter === "uncounted"
+    ? uncounted
+    : lineFilter === "variances"
+      ? varianceLines
+      : lines;
+
+  const summaryCards = [
+    { title: "Counted", value: `${lines.length - uncounted.length} of ${lines.length}` },
+    { title: "Lines With Variance", value: varianceLines.length.toString() },
+    { title: "Approved Units", value: `${approvedUnits > 0 ? "+" : ""}${approvedUnits}` },
+    { title: "Approved Value Impact", value: formatValue(approvedValue) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            {stocktake.name}
+            <StocktakeStatusBadge status={stocktake.status} />
+          </h1>
+          <p className="text-muted-foreground text-sm">
+            Started {stocktake.createdAt ? format(new Date(stocktake.createdAt), "MMM d, yyyy h:mm a") : "—"}
+            {stocktake.postedAt && ` · Posted ${format(new Date(stocktake.postedAt), "MMM d, yyyy h:mm a")}`}
+          </p>
+        </div>
+        {isCounting && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleSave} disabled={saving || !isDirty}>
+              <Save className="h-4 w-4" />
+              Save Counts
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" className="gap-2" disabled={saving || approvedLines.length === 0}>
+                  <Upload className="h-4 w-4" />
+                  Post Adjustments
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Post stock adjustments?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {approvedLines.length} approved {approvedLines.length === 1 ? "variance" : "variances"} worth{" "}
+                    {formatValue(approvedValue)} will be applied to stock.
+                    {uncounted.length > 0 && ` ${uncounted.length} uncounted products are left unchanged.`}
+                    {" "}The count is then closed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep Counting</AlertDialogCancel>
+                  <AlertDialogAction onClick={handlePost}>Post</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2 text-destructive hover:text-destructive">
+                  <XCircle className="h-4 w-4" />
+                  Cancel Count
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cancel this stocktake?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The counts are discarded and no stock is changed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleCancel}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Cancel Count
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => (
+          <Card key={card.title} className="dashboard-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{card.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{card.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Lines */}
+      <Card className="dashboard-card">
+        <CardHeader className="space-y-4">
+          <CardTitle>Counts</CardTitle>
+          {isCounting && (
+            <div className="relative">
+              <ScanBarcode className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={handleScanKeyDown}
+                placeholder="Scan a barcode or type a SKU and press Enter to count one unit"
+                className="pl-8"
+                aria-label="Scan barcode"
+                autoFocus
+              />
+            </div>
+          )}
+          <Tabs value={lineFilter} onValueChange={(value) => setLineFilter(value as LineFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All ({lines.length})</TabsTrigger>
+              <TabsTrigger value="uncounted">Uncounted ({uncounted.length})</TabsTrigger>
+              <TabsTrigger value="variances">Variances ({varianceLines.length})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right w-32">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">Value Impact</TableHead>
+                <TableHead className="text-center">Approve</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map((line) => {
+                const variance = stocktakeVariance(line);
+                return (
+                  <TableRow key={line.productId} className="table-row">
+                    <TableCell>
+                      <Link
+                        to={`/products?highlight=${line.productId}`}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        {line.productName || products.find(p => p.id === line.productId)?.name || line.productId}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">${line.unitCost.toFixed(2)} per unit</p>
+                    </TableCell>
+                    <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                    <TableCell className="text-right">
+                      {isCounting ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          className="text-right"
+                          aria-label={`Counted quantity of ${line.productName}`}
+                          value={line.countedQuantity ?? ""}
+                          onChange={(e) => updateLine(line.productId, {
+                            countedQuantity: e.target.value === "" ? null : Math.max(parseInt(e.target.value) || 0, 0),
+                          })}
+                          placeholder="—"
+                        />
+                      ) : (
+                        line.countedQuantity ?? <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={cn("text-right font-medium", variance && variance < 0 && "text-destructive", variance && variance > 0 && "text-success")}
+                    >
+                      {variance === null ? <span className="text-muted-foreground">—</span> : `${variance > 0 ? "+" : ""}${variance}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {variance ? formatValue(varianceValue(line)) : <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {!!variance && (
+                        <Checkbox
+                          aria-label={`Approve variance for ${line.productName}`}
+                          checked={!!line.approved}
+                          disabled={!isCounting}
+                          onCheckedChange={(checked) => updateLine(line.productId, { approved: checked === true })}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">Approved value impact</TableCell>
+                <TableCell className="text-right font-semibold">{formatValue(approvedValue)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Plus, ClipboardCheck } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  stocktakeApi,
+  productApi,
+  categoryApi,
+  locationApi,
+  supplierApi,
+  stocktakeVariance,
+  varianceValue,
+  Category,
+  Product,
+  StockLocation,
+  Stocktake,
+  Supplier,
+} from "@/services/api";
+import { StocktakeStatusBadge } from "@/components/stocktakes/StocktakeStatusBadge";
+import { StartStocktakeDialog } from "@/components/stocktakes/StartStocktakeDialog";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+export default function Stocktakes() {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStocktakes();
+  }, []);
+
+  const fetchStocktakes = async () => {
+    try {
+      setLoading(true);
+      const [stocktakesRes, productsRes, categoriesRes, locationsRes, suppliersRes] = await Promise.all([
+        stocktakeApi.getAll(),
+        productApi.getAll(),
+        categoryApi.getAll(),
+        locationApi.getAll(),
+        supplierApi.getAll(),
+      ]);
+      setStocktakes(stocktakesRes.data);
+      setProducts(productsRes.data);
+      setCategories(categoriesRes.data);
+      setLocations(locationsRes.data);
+      setSuppliers(suppliersRes.data);
+    } catch (error) {
+      console.error('Error fetching stocktakes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load stocktakes. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const countedLines = (stocktake: Stocktake) =>
+    stocktake.lines.filter(line => stocktakeVariance(line) !== null).length;
+
+  const totalValue = (stocktake: Stocktake) =>
+    stocktake.lines.reduce((total, line) => total + varianceValue(line), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Stocktakes</h1>
+          <p className="text-muted-foreground">Count what is on the shelf and reconcile the difference</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Start Count
+        </Button>
+      </div>
+
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>All Stocktakes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : stocktakes.length === 0 ? (
+            <div className="text-center py-8">
+              <ClipboardCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No stocktakes yet. Start a count to check your stock levels.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Counted</TableHead>
+                  <TableHead>Variance Value</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes.map((stocktake) => (
+                  <TableRow
+                    key={stocktake.id}
+                    className="table-row cursor-pointer"
+                    onClick={() => navigate(`/stocktakes/${stocktake.id}`)}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{stocktake.name}</p>
+                      {stocktake.locationId && (
+                        <p className="text-xs text-muted-foreground">
+                          {locations.find(location => location.id === stocktake.locationId)?.name || "Unknown location"}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {stocktake.createdAt && format(new Date(stocktake.createdAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      {countedLines(stocktake)} of {stocktake.lines.length}
+                    </TableCell>
+                    <TableCell
+                      className={cn(totalValue(stocktake) < 0 && "text-destructive", totalValue(stocktake) > 0 && "text-success")}
+                    >
+                      {totalValue(stocktake) < 0 ? "−" : ""}${Math.abs(totalValue(stocktake)).toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      <StocktakeStatusBadge status={stocktake.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StartStocktakeDialog
+        open={isModalOpen}
+        products={products}
+        categories={categories}
+        locations={locations}
+        suppliers={suppliers}
+        onOpenChange={setIsModalOpen}
+        onStarted={(stocktake) => navigate(`/stocktakes/${stocktake.id}`)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useEffect, useState } from "react";
+import { Plus, Pencil, Trash2, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supplierApi, productApi, Product, Supplier } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyForm = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  leadTimeDays: "",
+  minimumOrderQuantity: "",
+  currency: "USD",
+  notes: "",
+};
+
+export default function Suppliers() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      setLoading(true);
+      const [suppliersRes, productsRes] = await Promise.all([
+        supplierApi.getAll(),
+        productApi.getAll(),
+      ]);
+      setSuppliers(suppliersRes.data);
+      setProducts(productsRes.data);
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load suppliers. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenModal = (supplier?: Supplier) => {
+    if (supplier) {
+      setEditingSupplier(supplier);
+      setFormData({
+        name: supplier.name,
+        contactName: supplier.contactName || "",
+        email: supplier.email || "",
+        phone: supplier.phone || "",
+        leadTimeDays: supplier.leadTimeDays?.toString() || "",
+        minimumOrderQuantity: supplier.minimumOrderQuantity?.toString() || "",
+        currency: supplier.currency,
+        notes: supplier.notes || "",
+      });
+    } else {
+      setEditingSupplier(null);
+      setFormData(emptyForm);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim() || !formData.currency.trim()) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const supplierData = {
+      name: formData.name.trim(),
+      contactName: formData.contactName.trim() || undefined,
+      email: formData.email.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      leadTimeDays: formData.leadTimeDays ? parseInt(formData.leadTimeDays) : undefined,
+      minimumOrderQuantity: formData.minimumOrderQuantity ? parseInt(formData.minimumOrderQuantity) : undefined,
+      currency: formData.currency.trim().toUpperCase(),
+      notes: formData.notes.trim() || undefined,
+    };
+
+    try {
+      if (editingSupplier) {
+        await supplierApi.update(editingSupplier.id, supplierData);
+        toast({
+          title: "Success",
+          description: "Supplier updated successfully.",
+        });
+      } else {
+        await supplierApi.create(supplierData);
+        toast({
+          title: "Success",
+          description: "Supplier created successfully.",
+        });
+      }
+
+      handleCloseModal();
+      fetchSuppliers();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${editingSupplier ? 'update' : 'create'} supplier. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (supplierId: string) => {
+    try {
+      await supplierApi.delete(supplierId);
+      toast({
+        title: "Success",
+        description: "Supplier deleted successfully.",
+      });
+      fetchSuppliers();
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete supplier. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const productCount = (supplierId: string) =>
+    products.filter(product => product.suppliers?.some(link => link.supplierId === supplierId)).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Suppliers</h1>
+          <p className="text-muted-foreground">Manage who you buy stock from</p>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Supplier
+        </Button>
+      </div>
+
+      <Dialog open={isModalOpen} onOpenChange={(open) => !open && handleCloseModal()}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingSupplier ? "Edit Supplier" : "Add New Supplier"}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">Name *</Label>
+              <Input
+                id="supplier-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Enter supplier name"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contact Person</Label>
+              <Input
+                id="supplier-contact"
+                value={formData.contactName}
+                onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                placeholder="Who to call"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="orders@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input
+                  id="supplier-phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  placeholder="Phone number"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-lead-time">Lead Time (days)</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min="0"
+                  value={formData.leadTimeDays}
+                  onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                  placeholder="7"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-moq">Min. Order Qty</Label>
+                <Input
+                  id="supplier-moq"
+                  type="number"
+                  min="0"
+                  value={formData.minimumOrderQuantity}
+                  onChange={(e) => setFormData({ ...formData, minimumOrderQuantity: e.target.value })}
+                  placeholder="1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-currency">Currency *</Label>
+                <Input
+                  id="supplier-currency"
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  placeholder="USD"
+                  maxLength={3}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Textarea
+                id="supplier-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Payment terms, ordering instructions, etc."
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={handleCloseModal}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingSupplier ? "Update" : "Create"} Supplier
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Suppliers Table */}
+      <Card className="dashboard-card">
+        <CardHeader>
+          <CardTitle>All Suppliers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-12 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-8">
+              <Truck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No suppliers found. Add your first supplier to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Lead Time</TableHead>
+                  <TableHead>Min. Order</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map((supplier) => (
+                  <TableRow key={supplier.id} className="table-row">
+                    <TableCell>
+                      <p className="font-medium">{supplier.name}</p>
+                      {supplier.notes && (
+                        <p className="text-sm text-muted-foreground">{supplier.notes}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {supplier.contactName && <p>{supplier.contactName}</p>}
+                        {supplier.email && <p className="text-muted-foreground">{supplier.email}</p>}
+                        {supplier.phone && <p className="text-muted-foreground">{supplier.phone}</p>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {supplier.leadTimeDays !== undefined ? `${supplier.leadTimeDays} days` : "—"}
+                    </TableCell>
+                    <TableCell>{supplier.minimumOrderQuantity ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{supplier.currency}</Badge>
+                    </TableCell>
+                    <TableCell>{productCount(supplier.id)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleOpenModal(supplier)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="outline" className="text-destructive hover:text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Supplier</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{supplier.name}"? This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(supplier.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { Plus, ArrowLeftRight, ArrowRight, Send, PackageCheck, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  transferApi,
+  locationApi,
+  productApi,
+  transferStatusLabels,
+  transferUnits,
+  InsufficientStockError,
+  Product,
+  StockLocation,
+  StockTransfer,
+  TransferStatus,
+} from "@/services/api";
+import { TransferStatusBadge } from "@/components/transfers/TransferStatusBadge";
+import { TransferDialog } from "@/components/transfers/TransferDialog";
+import { useToast } from "@/hooks/use-toast";
+import { unrecordedHistoryToast } from "@/lib/stock-history";
+
+export default function Transfers() {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | "all">("all");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchTransfers();
+  }, []);
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      const [transfersRes, locationsRes, productsRes] = await Promise.all([
+        transferApi.getAll(),
+        locationApi.getAll(),
+        productApi.getAll(),
+      ]);
+      setTransfers(transfersRes.data);
+      setLocations(locationsRes.data);
+      setProducts(productsRes.data);
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load transfers. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDispatch = async (transfer: StockTransfer) => {
+    try {
+      const response = await transferApi.dispatch(transfer);
+      toast({
+        title: "Success",
+        description: `Transfer #${transfer.id.slice(-8)} dispatched. Its stock is now in transit.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error dispatching transfer:', error);
+      toast({
+        title: "Error",
+        description: error instanceof InsufficientStockError
+          ? error.message
+          : "Failed to dispatch transfer. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReceive = async (transfer: StockTransfer) => {
+    try {
+      const response = await transferApi.receive(transfer);
+      toast({
+        title: "Success",
+        description: `Transfer #${transfer.id.slice(-8)} received at ${locationName(transfer.toLocationId)}.`,
+      });
+      if (response.unrecorded.length) toast(unrecordedHistoryToast(response.unrecorded));
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error receiving transfer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to receive transfer. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (transfer: StockTransfer) => {
+    try {
+      await transferApi.cancel(transfer.id);
+      toast({
+        title: "Success",
+        description: `Transfer #${transfer.id.slice(-8)} cancelled.`,
+      });
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error cancelling transfer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel transfer. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const locationName = (id: string) => locations.find(location => location.id === id)?.name || "Unknown";
+
+  const filteredTransfers = statusFilter === "all"
+    ? transfers
+    : transfers.filter(transfer => transfer.status === statusFilter);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Transfers</h1>
+          <p className="text-muted-foreground">Move stock between your locations</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)} className="gap-2" disabled={locations.length < 2}>
+          <Plus className="h-4 w-4" />
+          New Transfer
+        </Button>
+      </div>
+
+      <Card className="dashboard-card">
+        <CardHeader className="space-y-4">
+          <CardTitle>All Transfers</CardTitle>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as TransferStatus | "all")}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="all">All ({transfers.length})</TabsTrigger>
+              {(Object.keys(transferStatusLabels) as TransferStatus[]).map((status) => (
+                <TabsTrigger key={status} value={status}>
+                  {transferStatusLabels[status]} ({transfers.filter(transfer => transfer.status === status).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="h-16 bg-muted rounded"></div>
+                </div>
+              ))}
+            </div>
+          ) : filteredTransfers.length === 0 ? (
+            <div className="text-center py-8">
+              <ArrowLeftRight className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">
+                {transfers.length === 0
+                  ? locations.length < 2
+                    ? "Add at least two locations before transferring stock."
+                    : "No transfers yet. Create one to move stock between locations."
+                  : `No ${transferStatusLabels[statusFilter as TransferStatus].toLowerCase()} transfers.`}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Units</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTransfers.map((transfer) => (
+                  <TableRow key={transfer.id} className="table-row">
+                    <TableCell>
+                      <span className="font-medium">#{transfer.id.slice(-8)}</span>
+                      {transfer.notes && (
+                        <p className="text-xs text-muted-foreground">{transfer.notes}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 whitespace-nowrap">
+                        {locationName(transfer.fromLocationId)}
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                        {locationName(transfer.toLocationId)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {transfer.lines
+                        .map(line => `${line.productName || products.find(p => p.id === line.productId)?.name || "Unknown"} × ${line.quantity}`)
+                        .join(", ")}
+                    </TableCell>
+                    <TableCell>{transferUnits(transfer)}</TableCell>
+                    <TableCell>
+                      {transfer.createdAt && format(new Date(transfer.createdAt), "MMM d, yyyy")}
+                      {transfer.dispatchedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Dispatched {format(new Date(transfer.dispatchedAt), "MMM d")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <TransferStatusBadge status={transfer.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {transfer.status === "draft" && (
+                          <>
+                            <Button size="sm" variant="outline" className="gap-2" onClick={() => handleDispatch(transfer)}>
+                              <Send className="h-4 w-4" />
+                              Dispatch
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-destructive hover:text-destructive"
+                              title="Cancel transfer"
+                              onClick={() => handleCancel(transfer)}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {transfer.status === "in-transit" && (
+                          <Button size="sm" variant="outline" className="gap-2" onClick={() => handleReceive(transfer)}>
+                            <PackageCheck className="h-4 w-4" />
+                            Receive
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <TransferDialog
+        open={isModalOpen}
+        locations={locations}
+        products={products}
+        onOpenChange={setIsModalOpen}
+        onSaved={fetchTransfers}
+      />
+    </div>
+  );
+}
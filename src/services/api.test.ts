@@ -0,0 +1,329 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateLots,
+  averageCost,
+  computeRevenueTrend,
+  expiringLots,
+  fefoOrder,
+  foreignCostSupplier,
+  inventoryValuation,
+  landedUnitCosts,
+  parseVariantValues,
+  stockValue,
+  unitCost,
+  variantCombinations,
+  variantLabel,
+  variantSkus,
+  CostLayer,
+  OrderStatus,
+  OrderWithProducts,
+  Product,
+  PurchaseOrderLine,
+  StockLot,
+  Supplier,
+} from "@/services/api";
+
+const lot = (lotNumber: string, quantity: number, expiryDate: string | null, receivedDate = "2026-01-01"): StockLot =>
+  ({ lotNumber, quantity, expiryDate, receivedDate });
+
+describe("computeRevenueTrend", () => {
+  const order = (placedAt: Date, totalPrice: number, status?: OrderStatus): OrderWithProducts =>
+    ({ items: [], totalPrice, status, createdAt: placedAt.toISOString() });
+
+  it("compares the month to date with the same span of last month", () => {
+    const now = new Date(2026, 2, 15, 12);
+    const trend = computeRevenueTrend([
+      order(new Date(2026, 2, 1), 100),
+      order(new Date(2026, 2, 15, 11), 50),
+      order(new Date(2026, 1, 10), 60),
+      // After the same point last month, so not compared
+      order(new Date(2026, 1, 20), 500),
+      order(new Date(2026, 0, 10), 900),
+    ], "month", now);
+    expect(trend).toEqual({ current: 150, previous: 60, delta: 90, percentChange: 150, direction: "up" });
+  });
+
+  it("compares the week to date with the same span of last week", () => {
+    // Wednesday; weeks start on Sunday
+    const now = new Date(2026, 2, 18, 9);
+    const trend = computeRevenueTrend([
+      order(new Date(2026, 2, 15, 8), 40),
+      order(new Date(2026, 2, 8, 8), 80),
+      order(new Date(2026, 2, 11, 10), 1000),
+    ], "week", now);
+    expect(trend).toMatchObject({ current: 40, previous: 80, delta: -40, percentChange: -50, direction: "down" });
+  });
+
+  it("stops the previous span at the start of this month when last month was shorter", () => {
+    const now = new Date(2026, 2, 31, 12);
+    const trend = computeRevenueTrend([order(new Date(2026, 1, 27), 30), order(new Date(2026, 2, 1), 30)], "month", now);
+    expect(trend).toMatchObject({ current: 30, previous: 30, direction: "flat", percentChange: 0 });
+  });
+
+  it("skips orders without a date", () => {
+    const now = new Date(2026, 2, 15, 12);
+    const trend = computeRevenueTrend([order(new Date(2026, 2, 2), 10), { items: [], totalPrice: 50 }], "month", now);
+    expect(trend.current).toBe(10);
+  });
+
+  it("only counts sales", () => {
+    const now = new Date(2026, 2, 15, 12);
+    const trend = computeRevenueTrend([
+      order(new Date(2026, 2, 2), 10, "delivered"),
+      order(new Date(2026, 2, 3), 20, "cancelled"),
+      order(new Date(2026, 2, 4), 30, "draft"),
+      order(new Date(2026, 2, 5), 40, "refunded"),
+    ], "month", now);
+    expect(trend.current).toBe(10);
+  });
+
+  it("has no percentage change without previous revenue", () => {
+    const now = new Date(2026, 2, 15, 12);
+    expect(computeRevenueTrend([order(new Date(2026, 2, 2), 10)], "month", now))
+      .toMatchObject({ previous: 0, percentChange: null, direction: "up" });
+    expect(computeRevenueTrend([], "month", now))
+      .toEqual({ current: 0, previous: 0, delta: 0, percentChange: null, direction: "flat" });
+  });
+});
+
+describe("variantCombinations", () => {
+  it("crosses every value of every axis in axis order", () => {
+    expect(variantCombinations([
+      { name: "Size", values: ["S", "M"] },
+      { name: "Colour", values: ["Red", "Blue"] },
+    ])).toEqual([
+      { Size: "S", Colour: "Red" },
+      { Size: "S", Colour: "Blue" },
+      { Size: "M", Colour: "Red" },
+      { Size: "M", Colour: "Blue" },
+    ]);
+  });
+
+  it("gives one empty combination when there are no axes", () => {
+    expect(variantCombinations([])).toEqual([{}]);
+  });
+
+  it("gives no combinations when an axis has no values", () => {
+    expect(variantCombinations([
+      { name: "Size", values: ["S", "M"] },
+      { name: "Colour", values: [] },
+    ])).toEqual([]);
+  });
+});
+
+describe("parseVariantValues", () => {
+  it("drops blanks and repeats", () => {
+    expect(parseVariantValues(" S, M ,, L, M ")).toEqual(["S", "M", "L"]);
+    expect(parseVariantValues("")).toEqual([]);
+  });
+});
+
+describe("variantLabel", () => {
+  it("joins option values", () => {
+    expect(variantLabel({ Size: "M", Colour: "Red" })).toBe("M / Red");
+    expect(variantLabel()).toBe("");
+  });
+});
+
+describe("variantSkus", () => {
+  const combinations = [{ Size: "M", Colour: "Navy Blue" }, { Size: "L", Colour: "Red" }];
+
+  it("joins the group SKU and option values", () => {
+    expect(variantSkus("tee", combinations, [])).toEqual(["TEE-M-NAVYBLUE", "TEE-L-RED"]);
+  });
+
+  it("numbers SKUs that are already taken, ignoring case", () => {
+    expect(variantSkus("TEE", combinations, ["tee-m-navyblue", "TEE-M-NAVYBLUE-2", undefined]))
+      .toEqual(["TEE-M-NAVYBLUE-3", "TEE-L-RED"]);
+  });
+
+  it("keeps generated SKUs apart from each other", () => {
+    expect(variantSkus("TEE", [{ Size: "X L" }, { Size: "XL" }], [])).toEqual(["TEE-XL", "TEE-XL-2"]);
+  });
+});
+
+describe("fefoOrder", () => {
+  it("puts the earliest expiry first and lots without expiry last", () => {
+    const lots = [lot("none", 1, null), lot("late", 1, "2026-09-01"), lot("early", 1, "2026-03-01")];
+    expect(fefoOrder(lots).map(l => l.lotNumber)).toEqual(["early", "late", "none"]);
+  });
+
+  it("breaks ties on expiry by the oldest receipt", () => {
+    const lots = [
+      lot("newer", 1, "2026-06-01", "2026-02-01"),
+      lot("older", 1, "2026-06-01", "2026-01-01"),
+      lot("no-expiry-newer", 1, null, "2026-02-01"),
+      lot("no-expiry-older", 1, null, "2026-01-01"),
+    ];
+    expect(fefoOrder(lots).map(l => l.lotNumber)).toEqual(["older", "newer", "no-expiry-older", "no-expiry-newer"]);
+  });
+
+  it("leaves the input untouched", () => {
+    const lots = [lot("late", 1, "2026-09-01"), lot("early", 1, "2026-03-01")];
+    fefoOrder(lots);
+    expect(lots[0].lotNumber).toBe("late");
+  });
+});
+
+describe("allocateLots", () => {
+  it("picks from the first-expiring lots until the quantity is met", () => {
+    const lots = [lot("late", 10, "2026-09-01"), lot("early", 3, "2026-03-01")];
+    expect(allocateLots(lots, 5)).toEqual([
+      { lotNumber: "early", quantity: 3 },
+      { lotNumber: "late", quantity: 2 },
+    ]);
+  });
+
+  it("picks expired lots first, as they expire earliest", () => {
+    const lots = [lot("current", 5, "2027-01-01"), lot("expired", 2, "2020-01-01")];
+    expect(allocateLots(lots, 3)).toEqual([
+      { lotNumber: "expired", quantity: 2 },
+      { lotNumber: "current", quantity: 1 },
+    ]);
+  });
+
+  it("skips empty lots", () => {
+    const lots = [lot("empty", 0, "2026-01-01"), lot("full", 4, "2026-06-01")];
+    expect(allocateLots(lots, 2)).toEqual([{ lotNumber: "full", quantity: 2 }]);
+  });
+
+  it("allocates nothing for a zero quantity", () => {
+    expect(allocateLots([lot("full", 4, "2026-06-01")], 0)).toEqual([]);
+  });
+
+  it("comes up short when the lots run out", () => {
+    const allocations = allocateLots([lot("a", 2, "2026-03-01"), lot("b", 1, null)], 5);
+    expect(allocations).toEqual([
+      { lotNumber: "a", quantity: 2 },
+      { lotNumber: "b", quantity: 1 },
+    ]);
+  });
+});
+
+describe("expiringLots", () => {
+  const now = new Date("2026-06-01T00:00:00Z");
+  const product = (id: string, lots: StockLot[]) => ({ id, name: id, lots } as Product);
+
+  it("lists in-stock lots expiring within the window, expired ones first", () => {
+    const products = [
+      product("milk", [lot("soon", 1, "2026-06-10"), lot("later", 1, "2026-08-01"), lot("none", 1, null)]),
+      product("eggs", [lot("expired", 2, "2026-05-30"), lot("sold-out", 0, "2026-06-02")]),
+    ];
+    expect(expiringLots(products, 30, now).map(l => [l.productId, l.lotNumber, l.daysLeft])).toEqual([
+      ["eggs", "expired", -2],
+      ["milk", "soon", 9],
+    ]);
+  });
+
+  it("includes a lot expiring on the last day of the window", () => {
+    expect(expiringLots([product("milk", [lot("edge", 1, "2026-07-01")])], 30, now)).toHaveLength(1);
+  });
+});
+
+describe("landedUnitCosts", () => {
+  const line = (productId: string, unitCost: number): PurchaseOrderLine =>
+    ({ productId, quantity: 10, receivedQuantity: 0, unitCost });
+  const purchaseOrder = { lines: [line("a", 10), line("b", 30)] };
+
+  it("returns the order cost when there are no landed costs", () => {
+    expect(landedUnitCosts(purchaseOrder, [{ productId: "a", quantity: 2 }, { productId: "b", quantity: 1 }]))
+      .toEqual([10, 30]);
+  });
+
+  it("shares landed costs by value", () => {
+    // 2 x $10 and 1 x $30 are worth $50; $10 of freight is 40% on a and 60% on b
+    const costs = landedUnitCosts(purchaseOrder, [{ productId: "a", quantity: 2 }, { productId: "b", quantity: 1 }], 10);
+    expect(costs[0]).toBeCloseTo(12);
+    expect(costs[1]).toBeCloseTo(36);
+  });
+
+  it("keeps the total landed cost when the shares do not divide evenly", () => {
+    const items = [{ productId: "a", quantity: 3 }, { productId: "b", quantity: 7 }];
+    const costs = landedUnitCosts(purchaseOrder, items, 10);
+    const total = costs.reduce((sum, cost, i) => sum + cost * items[i].quantity, 0);
+    expect(total).toBeCloseTo(3 * 10 + 7 * 30 + 10, 10);
+  });
+
+  it("shares landed costs by units when nothing has a cost", () => {
+    const free = { lines: [line("a", 0), line("b", 0)] };
+    expect(landedUnitCosts(free, [{ productId: "a", quantity: 1 }, { productId: "b", quantity: 3 }], 8)).toEqual([2, 2]);
+  });
+
+  it("gives zero-quantity items no share of the landed cost", () => {
+    const costs = landedUnitCosts(purchaseOrder, [{ productId: "a", quantity: 0 }, { productId: "b", quantity: 2 }], 6);
+    expect(costs).toEqual([10, 33]);
+  });
+
+  it("handles a receipt with no units", () => {
+    expect(landedUnitCosts(purchaseOrder, [{ productId: "a", quantity: 0 }], 5)).toEqual([10]);
+  });
+
+  it("converts order costs to the base currency before adding landed costs", () => {
+    expect(landedUnitCosts(purchaseOrder, [{ productId: "a", quantity: 1 }, { productId: "b", quantity: 1 }], 4, 0.5))
+      .toEqual([6, 18]);
+  });
+});
+
+describe("costing", () => {
+  const layer = (receivedDate: string, quantity: number, unitCost: number): CostLayer =>
+    ({ receivedDate, quantity, unitCost });
+  const product = (stock: number, costs: Partial<Product> = {}) =>
+    ({ id: "p", name: "Widget", price: 20, stock, lowStockThreshold: 0, ...costs } as Product);
+  const supplier = (id: string, currency: string) => ({ id, name: id, currency } as Supplier);
+  const suppliers = [supplier("local", "USD"), supplier("abroad", "EUR")];
+
+  it("averages cost layers by quantity", () => {
+    expect(averageCost({ costLayers: [layer("2026-01-01", 1, 10), layer("2026-02-01", 3, 14)] })).toBe(13);
+    expect(averageCost({ costLayers: [] })).toBeNull();
+    expect(averageCost({ costLayers: [layer("2026-01-01", 0, 10)] })).toBeNull();
+  });
+
+  it("falls back to the cost price, then a base-currency supplier cost", () => {
+    expect(unitCost(product(0, { costPrice: 7, suppliers: [{ supplierId: "local", cost: 5 }] }), suppliers)).toBe(7);
+    expect(unitCost(product(0, { suppliers: [{ supplierId: "local", cost: 5 }] }), suppliers)).toBe(5);
+  });
+
+  it("leaves out supplier costs in another currency or from an unknown supplier", () => {
+    const foreign = product(0, { suppliers: [{ supplierId: "abroad", cost: 5 }] });
+    expect(unitCost(foreign, suppliers)).toBe(0);
+    expect(foreignCostSupplier(foreign, suppliers)?.currency).toBe("EUR");
+    expect(unitCost(product(0, { suppliers: [{ supplierId: "local", cost: 5 }] }))).toBe(0);
+  });
+
+  it("does not flag a foreign supplier once there is a base-currency cost", () => {
+    const costed = product(0, { costPrice: 7, suppliers: [{ supplierId: "abroad", cost: 5 }] });
+    expect(foreignCostSupplier(costed, suppliers)).toBeUndefined();
+  });
+
+  describe("stockValue", () => {
+    const layered = product(5, {
+      costPrice: 8,
+      costLayers: [layer("2026-01-01", 4, 10), layer("2026-03-01", 2, 16), layer("2026-02-01", 2, 12)],
+    });
+
+    it("values stock at the average cost", () => {
+      expect(stockValue(layered, "average")).toBeCloseTo(5 * 12);
+    });
+
+    it("values FIFO stock from the newest receipts", () => {
+      // 2 @ 16 (March) + 2 @ 12 (February) + 1 @ 10 (January)
+      expect(stockValue(layered, "fifo")).toBe(66);
+    });
+
+    it("values FIFO stock older than any receipt at the unit cost", () => {
+      const older = product(4, { costPrice: 8, costLayers: [layer("2026-01-01", 1, 10)] });
+      expect(stockValue(older, "fifo")).toBe(10 + 3 * 10);
+      expect(stockValue(product(3, { costPrice: 8 }), "fifo")).toBe(24);
+    });
+
+    it("values zero or negative stock at nothing", () => {
+      expect(stockValue(product(0, { costPrice: 8 }), "average")).toBe(0);
+      expect(stockValue(product(-2, { costPrice: 8 }), "fifo")).toBe(0);
+    });
+  });
+
+  it("keeps the unit cost of lines with no stock on hand", () => {
+    const [line] = inventoryValuation([product(0, { costPrice: 8 })], "fifo");
+    expect(line).toMatchObject({ unitCost: 8, value: 0, retailValue: 0 });
+  });
+});
@@ -1,4 +1,7 @@
 import axios from 'axios';
+import { addDays, differenceInCalendarDays, startOfMonth, startOfWeek, subMonths, subWeeks } from 'date-fns';
+import { getCurrentUser } from '@/lib/current-user';
+import { businessProfile } from '@/lib/business';
 
 // Configure base API client
 const api = axios.create({
@@ -22,6 +25,10 @@ api.interceptors.response.use(
   }
 );
 
+// Data from a request that a page can do without, or the fallback when it failed
+export const settledData = <T>(result: PromiseSettledResult<{ data: T }>, fallback: T) =>
+  result.status === 'fulfilled' ? result.value.data : fallback;
+
 // Helper to map _id to id
 function mapProduct(product: any): Product {
   return {
@@ -34,6 +41,9 @@ function mapOrder(order: any): OrderWithProducts {
   return {
     ...order,
     id: order._id || order.id,
+    // Orders placed before statuses existed were treated as completed
+    status: order.status || 'delivered',
+    customerId: order.customerId || (order.customer && (order.customer._id || order.customer.id)),
     items: order.items.map((item: any) => ({
       ...item,
       productId: item.productId || (item.product && (item.product._id || item.product.id)),
@@ -41,6 +51,79 @@ function mapOrder(order: any): OrderWithProducts {
   };
 }
 
+function mapCategory(category: Category & { _id?: string }): Category {
+  return {
+    ...category,
+    id: category._id || category.id,
+  };
+}
+
+function mapLocation(location: StockLocation & { _id?: string }): StockLocation {
+  return {
+    ...location,
+    id: location._id || location.id,
+  };
+}
+
+function mapTransfer(transfer: StockTransfer & { _id?: string }): StockTransfer {
+  return {
+    ...transfer,
+    id: transfer._id || transfer.id,
+  };
+}
+
+function mapSerial(serial: SerialUnit & { _id?: string }): SerialUnit {
+  return {
+    ...serial,
+    id: serial._id || serial.id,
+    history: serial.history || [],
+  };
+}
+
+function mapStocktake(stocktake: Stocktake & { _id?: string }): Stocktake {
+  return {
+    ...stocktake,
+    id: stocktake._id || stocktake.id,
+  };
+}
+
+function mapSupplier(supplier: Supplier & { _id?: string }): Supplier {
+  return {
+    ...supplier,
+    id: supplier._id || supplier.id,
+  };
+}
+
+function mapPurchaseOrder(purchaseOrder: PurchaseOrder & { _id?: string }): PurchaseOrder {
+  return {
+    ...purchaseOrder,
+    id: purchaseOrder._id || purchaseOrder.id,
+    lines: purchaseOrder.lines.map(line => ({ ...line, receivedQuantity: line.receivedQuantity || 0 })),
+  };
+}
+
+function mapCustomer(customer: Customer & { _id?: string }): Customer {
+  return {
+    ...customer,
+    id: customer._id || customer.id,
+    addresses: customer.addresses || [],
+  };
+}
+
+function mapReturn(customerReturn: CustomerReturn & { _id?: string }): CustomerReturn {
+  return {
+    ...customerReturn,
+    id: customerReturn._id || customerReturn.id,
+  };
+}
+
+function mapStockMovement(movement: StockMovement & { _id?: string }): StockMovement {
+  return {
+    ...movement,
+    id: movement._id || movement.id,
+  };
+}
+
 // Types
 export interface Product {
   id: string;
@@ -49,6 +132,602 @@ export interface Product {
   price: number;
   stock: number;
   lowStockThreshold: number;
+  // Unique identifiers; a scanned or typed code is matched against both
+  sku?: string;
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat;
+  categoryId?: string | null;
+  suppliers?: ProductSupplier[];
+  // A product with option axes is a group; its variants carry the stock
+  optionAxes?: VariantAxis[];
+  // Set on variants: the group they belong to and their value on each axis
+  parentId?: string | null;
+  options?: Record<string, string>;
+  // Variant price when it differs from the group price; price mirrors it
+  priceOverride?: number | null;
+  // Set on bundles (kits); their stock is derived from these components
+  components?: BundleComponent[];
+  // Where the stock is held; stock stays the total across locations
+  locationStock?: LocationStock[];
+  // Lot-tracked products hold their stock in lots and stock is their total
+  lotTracked?: boolean;
+  lots?: StockLot[];
+  // Serial-tracked products are received and sold as individually numbered units
+  serialTracked?: boolean;
+  // What one unit costs to buy, used until stock is received with a landed cost
+  costPrice?: number | null;
+  // One layer per goods receipt, recorded by the server from the receipt items
+  costLayers?: CostLayer[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type BarcodeFormat = 'ean13' | 'upca' | 'code128';
+
+// An option customers choose between, e.g. Size with S, M and L
+export interface VariantAxis {
+  name: string;
+  values: string[];
+}
+
+export const hasVariants = (product: Pick<Product, 'optionAxes'>) => !!product.optionAxes?.length;
+
+// Groups hold no stock of their own, so only their variants can run low.
+// A product is also low when any location falls to its own threshold.
+export const isLowStock = (
+  product: Pick<Product, 'optionAxes' | 'stock' | 'lowStockThreshold' | 'locationStock'>
+) =>
+  !hasVariants(product) &&
+  (product.stock <= product.lowStockThreshold || lowStockLocationIds(product).length > 0);
+
+// Every combination of one value per axis, in axis order
+export function variantCombinations(axes: VariantAxis[]) {
+  return axes.reduce<Record<string, string>[]>(
+    (combinations, axis) => combinations.flatMap(options =>
+      axis.values.map(value => ({ ...options, [axis.name]: value }))
+    ),
+    [{}]
+  );
+}
+
+// "S, M, L" as typed into a form, without blanks or repeats
+export const parseVariantValues = (text: string) =>
+  Array.from(new Set(text.split(',').map(value => value.trim()).filter(Boolean)));
+
+export const variantLabel = (options?: Record<string, string>) => Object.values(options || {}).join(' / ');
+
+// SKUs for new variants from the group's SKU and option values, e.g. TEE-M-RED.
+// A SKU that is already taken gets the next free number, e.g. TEE-M-RED-2.
+export function variantSkus(groupSku: string, combinations: Record<string, string>[], takenSkus: (string | undefined)[]) {
+  const taken = new Set(takenSkus.filter(Boolean).map(sku => sku!.toUpperCase()));
+  return combinations.map(options => {
+    const base = [groupSku, ...Object.values(options)].join('-').toUpperCase().replace(/\s+/g, '');
+    let sku = base;
+    for (let suffix = 2; taken.has(sku); suffix++) sku = `${base}-${suffix}`;
+    taken.add(sku);
+    return sku;
+  });
+}
+
+// One line of a bundle: how many units of a product go into each kit
+export interface BundleComponent {
+  productId: string;
+  quantity: number;
+}
+
+export const isBundle = (product: Pick<Product, 'components'>) => !!product.components?.length;
+
+// How many complete kits the component stock can make
+export function bundleStock(bundle: Pick<Product, 'components'>, products: Pick<Product, 'id' | 'stock'>[]) {
+  const counts = (bundle.components || []).map(component => {
+    const stock = products.find(product => product.id === component.productId)?.stock || 0;
+    return Math.floor(Math.max(stock, 0) / component.quantity);
+  });
+  return counts.length > 0 ? Math.min(...counts) : 0;
+}
+
+// Components too short to make more kits than the bundle's low-stock
+// threshold; any of these puts the bundle itself on the low-stock list
+export function shortComponents(bundle: Product, products: Product[]) {
+  return (bundle.components || []).filter(component =>
+    bundleStock({ components: [component] }, products) <= bundle.lowStockThreshold
+  );
+}
+
+// Bundles report the stock their components allow instead of a stored count
+const resolveBundles = (products: Product[]) =>
+  products.map(product => (isBundle(product) ? { ...product, stock: bundleStock(product, products) } : product));
+
+const lotsNote = (reason: string, lots?: LotAllocation[]) =>
+  lots?.length ? `${reason} (lot ${lots.map(lot => `${lot.lotNumber} × ${lot.quantity}`).join(', ')})` : reason;
+
+const serialsNote = (reason: string, serials?: string[]) =>
+  serials?.length ? `${reason} (serial ${serials.join(', ')})` : reason;
+
+// Names of the products whose stock changed but whose history entry could not be written
+const unrecordedProducts = (products: Pick<Product, 'name'>[], recorded: boolean[]) =>
+  products.filter((_, index) => !recorded[index]).map(product => product.name);
+
+// The units that physically move for some order lines: bundle lines become
+// their components, and repeated products are added together
+function expandBundles(items: { productId: string; quantity: number }[], products: Product[]) {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    const product = products.find(p => p.id === item.productId);
+    const lines = product && isBundle(product)
+      ? product.components!.map(component => ({
+          productId: component.productId,
+          quantity: component.quantity * item.quantity,
+        }))
+      : [item];
+    for (const line of lines) {
+      quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+    }
+  }
+  return Array.from(quantities, ([productId, quantity]) => ({ productId, quantity }));
+}
+
+const sameOptions = (a?: Record<string, string>, b?: Record<string, string>) =>
+  JSON.stringify(a || {}) === JSON.stringify(b || {});
+
+// Check that an order's lines can be picked and work out the units its stock
+// comes from. The server marks the listed serials as sold to the order's customer.
+async function orderStockItems(order: Pick<Order, 'items' | 'locationId'>) {
+  const [{ data: products }, { data: locations }] = await Promise.all([
+    productApi.getAll(),
+    order.locationId ? locationApi.getAll() : Promise.resolve({ data: [] as StockLocation[] }),
+  ]);
+  for (const item of order.items) {
+    const product = products.find(p => p.id === item.productId);
+    if (product?.serialTracked && item.serials?.length !== item.quantity) {
+      throw new Error(`Select a serial number for each unit of ${product.name}`);
+    }
+  }
+  const expanded = expandBundles(order.items, products);
+  const sold = expanded.map(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) throw new Error(`Product ${item.productId} no longer exists`);
+    const available = order.locationId ? stockAt(product, locations, order.locationId) : product.stock;
+    if (available < item.quantity) throw new InsufficientStockError({ name: product.name, stock: available });
+    return product;
+  });
+  // Lot-tracked stock is picked first-expired-first-out
+  const stockItems = expanded.map((item, index): { productId: string; quantity: number; lots?: LotAllocation[] } =>
+    sold[index].lotTracked ? { ...item, lots: allocateLots(sold[index].lots || [], item.quantity) } : item
+  );
+  return { sold, stockItems };
+}
+
+const recordOrderStock = (
+  order: Pick<Order, 'items' | 'locationId'>,
+  id: string | undefined,
+  sold: Product[],
+  stockItems: { productId: string; quantity: number; lots?: LotAllocation[] }[]
+) =>
+  Promise.all(sold.map((product, index) =>
+    stockMovementApi.recordChange(product, product.stock - stockItems[index].quantity, {
+      source: 'order',
+      user: getCurrentUser(),
+      reason: serialsNote(
+        lotsNote('Sold on order', stockItems[index].lots),
+        order.items.find(item => item.productId === product.id)?.serials
+      ),
+      referenceId: id,
+      locationId: order.locationId,
+    })
+  ));
+
+export interface Category {
+  id: string;
+  name: string;
+  // Top-level categories have no parent
+  parentId?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Categories from the root down to the given one, e.g. Electronics, Cables, USB-C
+export function categoryPath(categories: Category[], id?: string | null) {
+  const path: Category[] = [];
+  let current = categories.find(category => category.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = categories.find(category => category.id === parentId);
+  }
+  return path;
+}
+
+export const categoryLabel = (categories: Category[], id?: string | null) =>
+  categoryPath(categories, id).map(category => category.name).join(' > ');
+
+// The category itself and everything nested beneath it
+export function categoryDescendantIds(categories: Category[], id: string) {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Depth-first listing with each category's nesting depth, siblings sorted by name
+export function categoryTree(categories: Category[]) {
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const tree: { category: Category; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    categories
+      .filter(category => (category.parentId || undefined) === parentId)
+      .sort(byName)
+      .forEach(category => {
+        tree.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(undefined, 0);
+  return tree;
+}
+
+// Units of a product received together, e.g. one delivery of a perishable
+export interface StockLot {
+  lotNumber: string;
+  receivedDate: string;
+  expiryDate?: string | null;
+  quantity: number;
+}
+
+export interface LotAllocation {
+  lotNumber: string;
+  quantity: number;
+}
+
+// First expired, first out: soonest expiry first, then oldest receipt, and
+// lots without an expiry date last
+export function fefoOrder(lots: StockLot[]) {
+  return [...lots].sort((a, b) => {
+    if (a.expiryDate !== b.expiryDate) {
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate.localeCompare(b.expiryDate);
+    }
+    return a.receivedDate.localeCompare(b.receivedDate);
+  });
+}
+
+// Which lots a quantity is picked from; short if the lots run out
+export function allocateLots(lots: StockLot[], quantity: number) {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of fefoOrder(lots)) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    if (take <= 0) continue;
+    allocations.push({ lotNumber: lot.lotNumber, quantity: take });
+    remaining -= take;
+  }
+  return allocations;
+}
+
+export const EXPIRING_SOON_DAYS = 30;
+
+export interface ExpiringLot extends StockLot {
+  productId: string;
+  productName: string;
+  // Negative once the lot has expired
+  daysLeft: number;
+}
+
+// Lots still in stock that expire within the window, expired ones included
+export function expiringLots(products: Product[], withinDays = EXPIRING_SOON_DAYS, now = new Date()) {
+  const cutoff = addDays(now, withinDays);
+  return products
+    .flatMap(product => (product.lots || [])
+      .filter(lot => lot.quantity > 0 && lot.expiryDate && new Date(lot.expiryDate) <= cutoff)
+      .map((lot): ExpiringLot => ({
+        ...lot,
+        productId: product.id,
+        productName: product.name,
+        daysLeft: differenceInCalendarDays(new Date(lot.expiryDate!), now),
+      })))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+export type SerialStatus = 'in-stock' | 'sold' | 'written-off';
+
+export const serialStatusLabels: Record<SerialStatus, string> = {
+  'in-stock': 'In Stock',
+  sold: 'Sold',
+  'written-off': 'Written Off',
+};
+
+export type SerialEventType = 'received' | 'sold' | 'cancelled' | 'returned';
+
+export const serialEventLabels: Record<SerialEventType, string> = {
+  received: 'Received',
+  sold: 'Sold',
+  cancelled: 'Order cancelled',
+  returned: 'Returned',
+};
+
+export interface SerialEvent {
+  type: SerialEventType;
+  date: string;
+  // The purchase order for receipts, otherwise the order
+  referenceId?: string;
+  customerId?: string;
+  note?: string;
+}
+
+// One numbered unit of a serial-tracked product and everything that happened to it
+export interface SerialUnit {
+  id: string;
+  productId: string;
+  serialNumber: string;
+  status: SerialStatus;
+  history: SerialEvent[];
+  createdAt?: string;
+}
+
+// Serial numbers typed or scanned one per line (commas also separate), without repeats
+export const parseSerialNumbers = (text: string) =>
+  Array.from(new Set(text.split(/[\n,]/).map(serial => serial.trim()).filter(Boolean)));
+
+// A shop, warehouse or other place stock is kept
+export interface StockLocation {
+  id: string;
+  name: string;
+  // Short code for tables, e.g. SHOP or WH1
+  code?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LocationStock {
+  locationId: string;
+  stock: number;
+  // Only locations with their own threshold are checked for low stock
+  lowStockThreshold?: number | null;
+}
+
+export const locationLabel = (location: Pick<StockLocation, 'name' | 'code'>) => location.code || location.name;
+
+// One entry per location. Products stocked before locations existed report
+// their whole stock at the first location.
+export function locationBreakdown(product: Pick<Product, 'stock' | 'locationStock'>, locations: StockLocation[]) {
+  return locations.map((location, index): LocationStock => {
+    const entry = product.locationStock?.find(e => e.locationId === location.id);
+    if (entry) return entry;
+    const legacyStock = !product.locationStock?.length && index === 0 ? product.stock : 0;
+    return { locationId: location.id, stock: legacyStock, lowStockThreshold: null };
+  });
+}
+
+export const stockAt = (
+  product: Pick<Product, 'stock' | 'locationStock'>,
+  locations: StockLocation[],
+  locationId: string
+) => locationBreakdown(product, locations).find(entry => entry.locationId === locationId)?.stock || 0;
+
+export const lowStockLocationIds = (product: Pick<Product, 'locationStock'>) =>
+  (product.locationStock || [])
+    .filter(entry => entry.lowStockThreshold != null && entry.stock <= entry.lowStockThreshold)
+    .map(entry => entry.locationId);
+
+export type TransferStatus = 'draft' | 'in-transit' | 'received' | 'cancelled';
+
+export const transferStatusLabels: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  'in-transit': 'In transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export interface TransferLine {
+  productId: string;
+  productName?: string;
+  quantity: number;
+}
+
+// Stock moving from one location to another
+export interface StockTransfer {
+  id: string;
+  fromLocationId: string;
+  toLocationId: string;
+  status: TransferStatus;
+  lines: TransferLine[];
+  notes?: string;
+  dispatchedAt?: string;
+  receivedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const transferUnits = (transfer: Pick<StockTransfer, 'lines'>) =>
+  transfer.lines.reduce((total, line) => total + line.quantity, 0);
+
+// Dispatched units not yet received, per product. They count towards neither
+// location, so they are missing from both until the transfer is received.
+export function inTransitQuantities(transfers: StockTransfer[], toLocationId?: string) {
+  const inTransit: Record<string, number> = {};
+  for (const transfer of transfers) {
+    if (transfer.status !== 'in-transit') continue;
+    if (toLocationId && transfer.toLocationId !== toLocationId) continue;
+    for (const line of transfer.lines) {
+      inTransit[line.productId] = (inTransit[line.productId] || 0) + line.quantity;
+    }
+  }
+  return inTransit;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  leadTimeDays?: number;
+  minimumOrderQuantity?: number;
+  currency: string;
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A supplier that can provide a product, with their SKU and unit cost
+export interface ProductSupplier {
+  supplierId: string;
+  supplierSku?: string;
+  cost: number;
+  preferred?: boolean;
+}
+
+export const preferredSupplier = (product: Pick<Product, 'suppliers'>) =>
+  product.suppliers?.find(supplier => supplier.preferred) || product.suppliers?.[0];
+
+export const isBaseCurrency = (currency?: string) =>
+  !currency || currency.toUpperCase() === businessProfile.currency;
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'ordered'
+  | 'partially-received'
+  | 'received'
+  | 'cancelled';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  'partially-received': 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+// Purchase orders with goods still expected from the supplier
+export const openPurchaseOrderStatuses: PurchaseOrderStatus[] = ['ordered', 'partially-received'];
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName?: string;
+  quantity: number;
+  receivedQuantity: number;
+  // Expected unit cost in the supplier's currency
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string;
+  notes?: string;
+  orderedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface GoodsReceipt {
+  // Lot-tracked products start a new lot with each receipt
+  // Serial-tracked products list the serial number of each unit received
+  items: {
+    productId: string;
+    quantity: number;
+    lotNumber?: string;
+    expiryDate?: string | null;
+    serials?: string[];
+    // Landed cost of one unit; filled in when the receipt is posted
+    unitCost?: number;
+  }[];
+  // Freight, duty and other charges on the delivery, in the base currency
+  landedCost?: number;
+  // Base-currency value of one unit of the supplier's currency; required when
+  // the supplier bills in another currency so stock is costed in the base currency
+  exchangeRate?: number;
+  // Where the goods arrived; required once locations exist
+  locationId?: string;
+  note?: string;
+}
+
+// Each line's unit cost in the base currency plus its share of the landed
+// cost. Charges are shared by value, or by units when nothing on the receipt
+// has a cost.
+export function landedUnitCosts(
+  purchaseOrder: Pick<PurchaseOrder, 'lines'>,
+  items: GoodsReceipt['items'],
+  landedCost = 0,
+  exchangeRate = 1
+) {
+  const lineCost = (productId: string) =>
+    (purchaseOrder.lines.find(line => line.productId === productId)?.unitCost ?? 0) * exchangeRate;
+  const totalValue = items.reduce((total, item) => total + lineCost(item.productId) * item.quantity, 0);
+  const totalUnits = items.reduce((total, item) => total + item.quantity, 0);
+  return items.map(item => {
+    if (item.quantity <= 0) return lineCost(item.productId);
+    const share = totalValue > 0
+      ? landedCost * (lineCost(item.productId) * item.quantity) / totalValue
+      : totalUnits > 0 ? landedCost * item.quantity / totalUnits : 0;
+    return lineCost(item.productId) + share / item.quantity;
+  });
+}
+
+export const outstandingQuantity = (line: PurchaseOrderLine) =>
+  Math.max(line.quantity - line.receivedQuantity, 0);
+
+export const purchaseOrderTotal = (purchaseOrder: Pick<PurchaseOrder, 'lines'>) =>
+  purchaseOrder.lines.reduce((total, line) => total + line.unitCost * line.quantity, 0);
+
+// Units per product ordered from suppliers but not yet received
+export function onOrderQuantities(purchaseOrders: PurchaseOrder[]) {
+  const onOrder: Record<string, number> = {};
+  for (const purchaseOrder of purchaseOrders) {
+    if (!openPurchaseOrderStatuses.includes(purchaseOrder.status)) continue;
+    for (const line of purchaseOrder.lines) {
+      onOrder[line.productId] = (onOrder[line.productId] || 0) + outstandingQuantity(line);
+    }
+  }
+  return onOrder;
+}
+
+// Top up to twice the threshold, less what is already on its way, and never
+// below what the supplier will accept
+export function suggestedReorderQuantity(
+  product: Pick<Product, 'lowStockThreshold'>,
+  onOrder = 0,
+  supplier?: Pick<Supplier, 'minimumOrderQuantity'>
+) {
+  const needed = Math.max(product.lowStockThreshold * 2 - onOrder, 0);
+  return needed === 0 ? 0 : Math.max(needed, supplier?.minimumOrderQuantity || 0);
+}
+
+export interface ReorderItem {
+  productId: string;
+  productName: string;
+  supplierId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface Address {
+  label?: string;
+  street: string;
+  city: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  addresses: Address[];
+  notes?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -57,12 +736,79 @@ export interface OrderItem {
   productId: string;
   quantity: number;
   price: number;
+  // Units cancelled after the order was placed and returned to stock
+  cancelledQuantity?: number;
+  // Serial-tracked products list one serial per unit still on the order;
+  // cancelling units takes their serials off the line
+  serials?: string[];
+}
+
+export type OrderStatus =
+  | 'draft'
+  | 'pending'
+  | 'paid'
+  | 'picking'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded';
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending',
+  paid: 'Paid',
+  picking: 'Picking',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+// Statuses each status may move to; cancelled and refunded are final
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  draft: ['pending', 'cancelled'],
+  pending: ['paid', 'cancelled'],
+  paid: ['picking', 'refunded', 'cancelled'],
+  picking: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus) =>
+  orderStatusTransitions[from].includes(to);
+
+export class OrderTransitionError extends Error {
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Cannot move order from ${orderStatusLabels[from]} to ${orderStatusLabels[to]}.`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(product: Pick<Product, 'name' | 'stock'>) {
+    super(`Not enough stock for ${product.name}. Available: ${product.stock}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string;
+  note?: string;
 }
 
 export interface Order {
   id?: string;
   items: OrderItem[];
   totalPrice: number;
+  status?: OrderStatus;
+  statusHistory?: OrderStatusChange[];
+  cancellationReason?: string;
+  customerId?: string;
+  // Location the order is picked from
+  locationId?: string;
   createdAt?: string;
 }
 
@@ -70,25 +816,544 @@ export interface OrderWithProducts extends Omit<Order, 'items'> {
   items: (OrderItem & { productName: string })[];
 }
 
+export interface OrderCancellation {
+  reason: string;
+  // Units to cancel per product; omit to cancel every remaining unit
+  items?: { productId: string; quantity: number; serials?: string[] }[];
+}
+
+export const remainingQuantity = (item: OrderItem) => item.quantity - (item.cancelledQuantity || 0);
+
+// Cancelled, refunded and draft orders do not count as sales
+export const countsAsSale = (order: Pick<Order, 'status'>) =>
+  !order.status || !['draft', 'cancelled', 'refunded'].includes(order.status);
+
+export const lifetimeValue = (orders: Pick<Order, 'status' | 'totalPrice'>[]) =>
+  orders
+    .filter(countsAsSale)
+    .reduce((total, order) => total + (typeof order.totalPrice === 'number' ? order.totalPrice : 0), 0);
+
+export type ReturnDisposition = 'restock' | 'quarantine' | 'scrap';
+
+export const returnDispositionLabels: Record<ReturnDisposition, string> = {
+  restock: 'Restock',
+  quarantine: 'Quarantine',
+  scrap: 'Scrap',
+};
+
+// Only goods that have left the building can come back
+export const returnableStatuses: OrderStatus[] = ['shipped', 'delivered'];
+
+export interface ReturnItem {
+  productId: string;
+  productName?: string;
+  quantity: number;
+  // Unit price from the original order line
+  price: number;
+  disposition: ReturnDisposition;
+  serials?: string[];
+}
+
+export interface CustomerReturn {
+  id: string;
+  orderId: string;
+  items: ReturnItem[];
+  refundAmount: number;
+  reason: string;
+  createdAt: string;
+}
+
+// Units of each product on the order that can still be returned
+export function returnableQuantities(order: OrderWithProducts, previousReturns: CustomerReturn[]) {
+  const returned = new Map<string, number>();
+  for (const customerReturn of previousReturns) {
+    for (const item of customerReturn.items) {
+      returned.set(item.productId, (returned.get(item.productId) || 0) + item.quantity);
+    }
+  }
+  return Object.fromEntries(order.items.map(item => [
+    item.productId,
+    Math.max(remainingQuantity(item) - (returned.get(item.productId) || 0), 0),
+  ]));
+}
+
+export class ReturnQuantityError extends Error {
+  constructor(productName: string, returnable: number, serial?: string) {
+    super(serial
+      ? `Serial ${serial} of ${productName} is not on this order or has already been returned.`
+      : `Only ${returnable} more ${returnable === 1 ? 'unit' : 'units'} of ${productName} can be returned.`);
+    this.name = 'ReturnQuantityError';
+  }
+}
+
+export class ReturnStatusError extends Error {
+  constructor(status?: OrderStatus) {
+    const allowed = returnableStatuses.map(s => orderStatusLabels[s].toLowerCase()).join(' or ');
+    super(`${status ? `${orderStatusLabels[status]} orders` : 'Orders without a status'} cannot be returned. Only ${allowed} orders can.`);
+    this.name = 'ReturnStatusError';
+  }
+}
+
+// The serials on each serial-tracked line that have not come back yet
+export function returnableSerials(order: OrderWithProducts, previousReturns: CustomerReturn[]) {
+  const returned = new Set(previousReturns.flatMap(customerReturn =>
+    customerReturn.items.flatMap(item => item.serials || [])
+  ));
+  return Object.fromEntries(order.items.map(item => [
+    item.productId,
+    (item.serials || []).filter(serial => !returned.has(serial)),
+  ]));
+}
+
+export type StockMovementSource =
+  | 'order'
+  | 'restock'
+  | 'manual-edit'
+  | 'adjustment'
+  | 'cancellation'
+  | 'return'
+  | 'purchase-order'
+  | 'transfer'
+  | 'stocktake';
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName?: string;
+  delta: number;
+  resultingStock: number;
+  reason: string;
+  source: StockMovementSource;
+  // Order or other document that caused the movement, when there is one
+  referenceId?: string;
+  locationId?: string;
+  // Name of whoever made the change
+  user?: string;
+  createdAt: string;
+}
+
+export interface StockMovementDetails {
+  source: StockMovementSource;
+  reason: string;
+  user: string;
+  referenceId?: string;
+  locationId?: string;
+}
+
+export type StockAdjustmentReason =
+  | 'received'
+  | 'write-off'
+  | 'damaged'
+  | 'found-in-count'
+  | 'returned-to-supplier';
+
+// Whether each reason adds stock (+1) or removes it (-1)
+export const stockAdjustmentReasons: Record<StockAdjustmentReason, { label: string; direction: 1 | -1 }> = {
+  received: { label: 'Received', direction: 1 },
+  'write-off': { label: 'Write off', direction: -1 },
+  damaged: { label: 'Damaged', direction: -1 },
+  'found-in-count': { label: 'Found in count', direction: 1 },
+  'returned-to-supplier': { label: 'Returned to supplier', direction: -1 },
+};
+
+export interface StockAdjustment {
+  reason: StockAdjustmentReason;
+  // Unsigned number of units; the sign comes from the reason
+  quantity: number;
+  // Required for lot-tracked products: the lot the units go into or come from
+  lotNumber?: string;
+  // Where the units are added or removed; required once locations exist so
+  // the per-location stock keeps adding up to the total
+  locationId?: string;
+  note?: string;
+}
+
+// Product edits never set quantities. Stock only moves through adjustments,
+// receipts, orders and the other paths that record a movement.
+export type ProductUpdate = Partial<Omit<Product, 'stock' | 'locationStock' | 'lots'>> & {
+  // Thresholds per location; the stock held at each is left alone
+  locationThresholds?: Omit<LocationStock, 'stock'>[];
+  // Lot numbers and dates; each lot keeps its quantity
+  lots?: Omit<StockLot, 'quantity'>[];
+};
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export const stocktakeStatusLabels: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+export interface StocktakeLine {
+  productId: string;
+  productName?: string;
+  // Stock when the count started
+  expectedQuantity: number;
+  // Null until the product has been counted
+  countedQuantity?: number | null;
+  // Cost of one unit when the count started, for the value of a variance
+  unitCost: number;
+  // Only approved variances are posted
+  approved?: boolean;
+}
+
+// A physical count of some or all products
+export interface Stocktake {
+  id: string;
+  name: string;
+  status: StocktakeStatus;
+  // The location being counted; expected and counted quantities are for it alone
+  locationId?: string | null;
+  lines: StocktakeLine[];
+  createdAt?: string;
+  postedAt?: string;
+}
+
+export interface StocktakeOptions {
+  locations?: StockLocation[];
+  // Required once there are locations
+  locationId?: string;
+  // Lets supplier costs in the base currency value the variances
+  suppliers?: Supplier[];
+}
+
+// The preferred supplier's cost, when they are known to bill in the base currency
+function supplierCost(product: Pick<Product, 'suppliers'>, suppliers: Supplier[]) {
+  const preferred = preferredSupplier(product);
+  const supplier = preferred && suppliers.find(s => s.id === preferred.supplierId);
+  return supplier && isBaseCurrency(supplier.currency) ? preferred.cost : undefined;
+}
+
+// What one unit of a product is worth in stock: its average landed cost once
+// received, otherwise its cost price or the preferred supplier's cost
+export const unitCost = (product: Pick<Product, 'suppliers' | 'costPrice' | 'costLayers'>, suppliers: Supplier[] = []) =>
+  averageCost(product) ?? product.costPrice ?? supplierCost(product, suppliers) ?? 0;
+
+// The supplier whose cost was left out of unitCost because it is in another
+// currency, so the product has no known cost
+export function foreignCostSupplier(product: Pick<Product, 'suppliers' | 'costPrice' | 'costLayers'>, suppliers: Supplier[]) {
+  if (averageCost(product) !== null || product.costPrice != null) return undefined;
+  const preferred = preferredSupplier(product);
+  const supplier = preferred?.cost != null ? suppliers.find(s => s.id === preferred.supplierId) : undefined;
+  return supplier && !isBaseCurrency(supplier.currency) ? supplier : undefined;
+}
+
+// Lot and serial-tracked stock is corrected on its lots and serials, so it is not counted here
+export const isCountable = (product: Product) =>
+  !hasVariants(product) && !isBundle(product) && !product.lotTracked && !product.serialTracked;
+
+// Counted minus expected; null while the line is uncounted
+export const stocktakeVariance = (line: StocktakeLine) =>
+  line.countedQuantity == null ? null : line.countedQuantity - line.expectedQuantity;
+
+export const varianceValue = (line: StocktakeLine) => (stocktakeVariance(line) || 0) * line.unitCost;
+
+// Units of a product received together at one landed cost
+export interface CostLayer {
+  receivedDate: string;
+  quantity: number;
+  unitCost: number;
+  // The purchase order the units were received on
+  referenceId?: string;
+}
+
+export type CostingMethod = 'average' | 'fifo';
+
+export const costingMethodLabels: Record<CostingMethod, string> = {
+  average: 'Weighted average',
+  fifo: 'FIFO',
+};
+
+// Average landed cost of every unit received; null before the first receipt
+export function averageCost(product: Pick<Product, 'costLayers'>) {
+  const layers = product.costLayers || [];
+  const quantity = layers.reduce((total, layer) => total + layer.quantity, 0);
+  if (quantity <= 0) return null;
+  return layers.reduce((total, layer) => total + layer.quantity * layer.unitCost, 0) / quantity;
+}
+
+// A kit costs what its components cost
+export const bundleCost = (bundle: Pick<Product, 'components'>, products: Product[], suppliers: Supplier[] = []) =>
+  (bundle.components || []).reduce((total, component) => {
+    const product = products.find(p => p.id === component.productId);
+    return total + (product ? unitCost(product, suppliers) * component.quantity : 0);
+  }, 0);
+
+// Gross margin as a share of the selling price; null when there is no price
+export const marginPercent = (price: number, cost: number) =>
+  price > 0 ? ((price - cost) / price) * 100 : null;
+
+// Stock on hand at cost. Under FIFO the oldest units sell first, so what is
+// left came from the newest receipts; units older than any recorded receipt
+// fall back to the unit cost.
+export function stockValue(product: Product, method: CostingMethod, suppliers: Supplier[] = []) {
+  const onHand = Math.max(product.stock, 0);
+  if (method === 'average') return onHand * unitCost(product, suppliers);
+
+  let remaining = onHand;
+  let value = 0;
+  const newestFirst = [...(product.costLayers || [])].sort((a, b) => b.receivedDate.localeCompare(a.receivedDate));
+  for (const layer of newestFirst) {
+    if (remaining <= 0) break;
+    const take = Math.min(layer.quantity, remaining);
+    value += take * layer.unitCost;
+    remaining -= take;
+  }
+  return value + remaining * unitCost(product, suppliers);
+}
+
+export interface ValuationLine {
+  product: Product;
+  // Value divided by units on hand, so FIFO shows the blended cost
+  unitCost: number;
+  value: number;
+  retailValue: number;
+}
+
+// Groups and kits hold no stock of their own, so only their variants and components are valued
+export const isValued = (product: Product) => !hasVariants(product) && !isBundle(product);
+
+export function inventoryValuation(products: Product[], method: CostingMethod, suppliers: Supplier[] = []): ValuationLine[] {
+  return products.filter(isValued).map(product => {
+    const onHand = Math.max(product.stock, 0);
+    const value = stockValue(product, method, suppliers);
+    return {
+      product,
+      unitCost: onHand > 0 ? value / onHand : unitCost(product, suppliers),
+      value,
+      retailValue: onHand * product.price,
+    };
+  });
+}
+
+export const valuationTotals = (lines: ValuationLine[]) => ({
+  value: lines.reduce((total, line) => total + line.value, 0),
+  retailValue: lines.reduce((total, line) => total + line.retailValue, 0),
+  units: lines.reduce((total, line) => total + Math.max(line.product.stock, 0), 0),
+});
+
+export interface DateRangeFilter {
+  from: Date;
+  to: Date;
+}
+
+export interface TopProduct {
+  productId: string;
+  productName: string;
+  quantity: number;
+  revenue: number;
+}
+
+export interface CategoryRollup {
+  // Undefined for products without a category
+  categoryId?: string;
+  name: string;
+  productCount: number;
+  stockUnits: number;
+  lowStockCount: number;
+  revenue: number;
+}
+
+export interface RevenueTrend {
+  current: number;
+  previous: number;
+  delta: number;
+  // null when the previous period had no revenue to compare against
+  percentChange: number | null;
+  direction: 'up' | 'down' | 'flat';
+}
+
+// Sum revenue for orders placed in [start, end)
+function sumRevenue(orders: OrderWithProducts[], start: Date, end: Date) {
+  return orders.reduce((total, order) => {
+    if (!order.createdAt || typeof order.totalPrice !== 'number' || !countsAsSale(order)) return total;
+    const placedAt = new Date(order.createdAt);
+    return placedAt >= start && placedAt < end ? total + order.totalPrice : total;
+  }, 0);
+}
+
+function isWithinRange(order: OrderWithProducts, range: DateRangeFilter) {
+  if (!order.createdAt) return false;
+  const placedAt = new Date(order.createdAt);
+  return placedAt >= range.from && placedAt <= range.to;
+}
+
+// Rank products by revenue across the given orders
+function computeTopProducts(orders: OrderWithProducts[], limit = 5): TopProduct[] {
+  const totals = new Map<string, TopProduct>();
+  for (const order of orders.filter(countsAsSale)) {
+    for (const item of order.items) {
+      const quantity = remainingQuantity(item);
+      if (quantity <= 0) continue;
+      const entry = totals.get(item.productId) || {
+        productId: item.productId,
+        productName: item.productName,
+        quantity: 0,
+        revenue: 0,
+      };
+      entry.quantity += quantity;
+      entry.revenue += item.price * quantity;
+      totals.set(item.productId, entry);
+    }
+  }
+  return Array.from(totals.values())
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, limit);
+}
+
+// Totals per top-level category, including everything nested beneath it
+function computeCategoryRollups(
+  categories: Category[],
+  products: Product[],
+  orders: OrderWithProducts[]
+): CategoryRollup[] {
+  const revenueByProduct = new Map<string, number>();
+  for (const order of orders.filter(countsAsSale)) {
+    for (const item of order.items) {
+      revenueByProduct.set(
+        item.productId,
+        (revenueByProduct.get(item.productId) || 0) + item.price * remainingQuantity(item)
+      );
+    }
+  }
+
+  const rollup = (name: string, members: Product[], categoryId?: string): CategoryRollup => ({
+    categoryId,
+    name,
+    productCount: members.length,
+    // A kit's units are already counted on its components
+    stockUnits: members.reduce((total, product) => total + (isBundle(product) ? 0 : product.stock), 0),
+    lowStockCount: members.filter(isLowStock).length,
+    revenue: members.reduce((total, product) => total + (revenueByProduct.get(product.id) || 0), 0),
+  });
+
+  const rollups = categories
+    .filter(category => !category.parentId)
+    .map(category => {
+      const ids = categoryDescendantIds(categories, category.id);
+      return rollup(category.name, products.filter(product => product.categoryId && ids.has(product.categoryId)), category.id);
+    });
+
+  const uncategorized = products.filter(
+    product => !product.categoryId || !categories.some(category => category.id === product.categoryId)
+  );
+  if (uncategorized.length > 0) {
+    rollups.push(rollup('Uncategorized', uncategorized));
+  }
+
+  return rollups.sort((a, b) => b.revenue - a.revenue);
+}
+
+// Compare the current period-to-date against the same elapsed span of the previous period
+export function computeRevenueTrend(
+  orders: OrderWithProducts[],
+  period: 'month' | 'week',
+  now: Date = new Date()
+): RevenueTrend {
+  const currentStart = period === 'month' ? startOfMonth(now) : startOfWeek(now);
+  const previousStart = period === 'month' ? subMonths(currentStart, 1) : subWeeks(currentStart, 1);
+  const previousNow = period === 'month' ? subMonths(now, 1) : subWeeks(now, 1);
+  const previousEnd = previousNow < currentStart ? previousNow : currentStart;
+
+  const current = sumRevenue(orders, currentStart, now);
+  const previous = sumRevenue(orders, previousStart, previousEnd);
+  const delta = current - previous;
+
+  return {
+    current,
+    previous,
+    delta,
+    percentChange: previous > 0 ? (delta / previous) * 100 : null,
+    direction: delta > 0 ? 'up' : delta < 0 ? 'down' : 'flat',
+  };
+}
+
 // Product API calls
 export const productApi = {
   getAll: async () => {
     const res = await api.get<any[]>('/products');
-    return { ...res, data: res.data.map(mapProduct) };
+    return { ...res, data: resolveBundles(res.data.map(mapProduct)) };
   },
   getById: async (id: string) => {
     const res = await api.get<any>(`/products/${id}`);
-    return { ...res, data: mapProduct(res.data) };
+    const product = mapProduct(res.data);
+    if (!isBundle(product)) {
+      return { ...res, data: product };
+    }
+    const components = await Promise.all(
+      product.components!.map(component => productApi.getById(component.productId))
+    );
+    return { ...res, data: { ...product, stock: bundleStock(product, components.map(({ data }) => data)) } };
   },
   create: async (product: Omit<Product, 'id'>) => {
     const res = await api.post<any>('/products', product);
     return { ...res, data: mapProduct(res.data) };
   },
-  update: async (id: string, product: Partial<Product>) => {
+  update: async (id: string, product: ProductUpdate) => {
     const res = await api.put<any>(`/products/${id}`, product);
     return { ...res, data: mapProduct(res.data) };
   },
   delete: (id: string) => api.delete(`/products/${id}`),
+  // Create variants for option combinations that do not exist yet and keep
+  // existing variants' inherited price and category in line with the group.
+  // Variants for removed options are left alone since they may still hold stock.
+  syncVariants: async (group: Product, variants: Product[]) => {
+    const missing = variantCombinations(group.optionAxes || [])
+      .filter(options => !variants.some(variant => sameOptions(variant.options, options)));
+    // Generated SKUs are checked against the whole catalogue so they stay unique
+    const skus = group.sku && missing.length > 0
+      ? variantSkus(group.sku, missing, (await productApi.getAll()).data.map(product => product.sku))
+      : [];
+    const created = await Promise.all(missing.map(async (options, index) => {
+      const res = await productApi.create({
+        name: `${group.name} - ${variantLabel(options)}`,
+        price: group.price,
+        stock: 0,
+        lowStockThreshold: group.lowStockThreshold,
+        sku: skus[index],
+        categoryId: group.categoryId,
+        parentId: group.id,
+        options,
+      });
+      return res.data;
+    }));
+
+    await Promise.all(variants
+      .filter(variant =>
+        variant.categoryId !== group.categoryId ||
+        (variant.priceOverride == null && variant.price !== group.price)
+      )
+      .map(variant => productApi.update(variant.id, {
+        categoryId: group.categoryId,
+        price: variant.priceOverride ?? group.price,
+      })));
+
+    return created;
+  },
+  // Apply a relative change on the server so concurrent orders are not overwritten
+  adjustStock: async (id: string, adjustment: StockAdjustment) => {
+    const delta = adjustment.quantity * stockAdjustmentReasons[adjustment.reason].direction;
+    const res = await api.post<Product & { _id?: string }>(`/products/${id}/adjustments`, {
+      delta,
+      reason: adjustment.reason,
+      lotNumber: adjustment.lotNumber,
+      locationId: adjustment.locationId,
+      note: adjustment.note,
+    });
+    const product = mapProduct(res.data);
+    const label = stockAdjustmentReasons[adjustment.reason].label;
+    const recorded = await stockMovementApi.recordChange({ ...product, stock: product.stock - delta }, product.stock, {
+      source: 'adjustment',
+      user: getCurrentUser(),
+      reason: lotsNote(
+        adjustment.note ? `${label}: ${adjustment.note}` : label,
+        adjustment.lotNumber ? [{ lotNumber: adjustment.lotNumber, quantity: adjustment.quantity }] : undefined
+      ),
+      locationId: adjustment.locationId,
+    });
+    return { ...res, data: product, unrecorded: recorded ? [] : [product.name] };
+  },
 };
 
 // Order API calls
@@ -101,28 +1366,640 @@ export const orderApi = {
     const res = await api.get<any>(`/orders/${id}`);
     return { ...res, data: mapOrder(res.data) };
   },
-  create: (order: Omit<Order, 'id'>) => api.post<Order>('/orders', order),
+  // The server takes stock from stockItems at the order's location, so kits
+  // consume their components rather than a stored count of their own.
+  // Drafts are saved without stockItems and take no stock until they are placed.
+  create: async (order: Omit<Order, 'id'>) => {
+    if (order.status === 'draft') {
+      const res = await api.post<Order & { _id?: string }>('/orders', order);
+      return { ...res, data: { ...res.data, id: res.data._id || res.data.id } as Order, unrecorded: [] as string[] };
+    }
+
+    const { sold, stockItems } = await orderStockItems(order);
+    const res = await api.post<Order & { _id?: string }>('/orders', { ...order, status: 'pending', stockItems });
+    const id = res.data._id || res.data.id;
+    const recorded = await recordOrderStock(order, id, sold, stockItems);
+
+    return { ...res, data: { ...res.data, id } as Order, unrecorded: unrecordedProducts(sold, recorded) };
+  },
+  // Move a draft to pending; the server takes its stock from stockItems as it
+  // would for a new order
+  place: async (order: OrderWithProducts) => {
+    const current = order.status || 'pending';
+    if (current !== 'draft') {
+      throw new OrderTransitionError(current, 'pending');
+    }
+    const { sold, stockItems } = await orderStockItems(order);
+    const res = await api.post<OrderWithProducts & { _id?: string }>(`/orders/${order.id}/place`, { stockItems });
+    const recorded = await recordOrderStock(order, order.id, sold, stockItems);
+
+    return { ...res, data: mapOrder(res.data), unrecorded: unrecordedProducts(sold, recorded) };
+  },
+  updateStatus: async (order: Pick<OrderWithProducts, 'id' | 'status'>, status: OrderStatus, note?: string) => {
+    const current = order.status || 'pending';
+    if (!canTransitionOrder(current, status)) {
+      throw new OrderTransitionError(current, status);
+    }
+    const res = await api.patch<OrderWithProducts & { _id?: string }>(`/orders/${order.id}/status`, { status, note });
+    return { ...res, data: mapOrder(res.data) };
+  },
+  // The server returns the cancelled units to stock, reduces the total and marks
+  // the order cancelled once no units remain
+  cancel: async (order: OrderWithProducts, cancellation: OrderCancellation) => {
+    const current = order.status || 'pending';
+    if (!canTransitionOrder(current, 'cancelled')) {
+      throw new OrderTransitionError(current, 'cancelled');
+    }
+    const items = (cancellation.items || order.items.map(item => ({
+      productId: item.productId,
+      quantity: remainingQuantity(item),
+    }))).filter(item => item.quantity > 0);
+
+    // Drafts never took stock, so there is nothing to return
+    const stockItems = current === 'draft' ? [] : expandBundles(items, (await productApi.getAll()).data);
+
+    const res = await api.post<OrderWithProducts & { _id?: string }>(`/orders/${order.id}/cancel`, {
+      reason: cancellation.reason,
+      items,
+      stockItems,
+    });
+
+    const restocked = await Promise.all(stockItems.map(item => productApi.getById(item.productId)));
+    const recorded = await Promise.all(restocked.map(({ data: product }, index) =>
+      stockMovementApi.recordChange(
+        { ...product, stock: product.stock - stockItems[index].quantity },
+        product.stock,
+        {
+          source: 'cancellation',
+          reason: cancellation.reason,
+          user: getCurrentUser(),
+          referenceId: order.id,
+          locationId: order.locationId,
+        }
+      )
+    ));
+
+    return {
+      ...res,
+      data: mapOrder(res.data),
+      unrecorded: unrecordedProducts(restocked.map(({ data }) => data), recorded),
+    };
+  },
+};
+
+// Category API calls
+export const categoryApi = {
+  getAll: async () => {
+    const res = await api.get<(Category & { _id?: string })[]>('/categories');
+    return { ...res, data: res.data.map(mapCategory) };
+  },
+  create: async (category: Omit<Category, 'id'>) => {
+    const res = await api.post<Category & { _id?: string }>('/categories', category);
+    return { ...res, data: mapCategory(res.data) };
+  },
+  update: async (id: string, category: Partial<Category>) => {
+    const res = await api.put<Category & { _id?: string }>(`/categories/${id}`, category);
+    return { ...res, data: mapCategory(res.data) };
+  },
+  delete: (id: string) => api.delete(`/categories/${id}`),
+};
+
+// Location API calls
+export const locationApi = {
+  getAll: async () => {
+    const res = await api.get<(StockLocation & { _id?: string })[]>('/locations');
+    return { ...res, data: res.data.map(mapLocation) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<StockLocation & { _id?: string }>(`/locations/${id}`);
+    return { ...res, data: mapLocation(res.data) };
+  },
+  create: async (location: Omit<StockLocation, 'id'>) => {
+    const res = await api.post<StockLocation & { _id?: string }>('/locations', location);
+    return { ...res, data: mapLocation(res.data) };
+  },
+  update: async (id: string, location: Partial<StockLocation>) => {
+    const res = await api.put<StockLocation & { _id?: string }>(`/locations/${id}`, location);
+    return { ...res, data: mapLocation(res.data) };
+  },
+  delete: (id: string) => api.delete(`/locations/${id}`),
+};
+
+// Stock transfer API calls
+export const transferApi = {
+  getAll: async () => {
+    const res = await api.get<(StockTransfer & { _id?: string })[]>('/transfers');
+    return { ...res, data: res.data.map(mapTransfer) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<StockTransfer & { _id?: string }>(`/transfers/${id}`);
+    return { ...res, data: mapTransfer(res.data) };
+  },
+  // Transfers start as drafts; nothing moves until they are dispatched
+  create: async (transfer: Omit<StockTransfer, 'id' | 'status'>) => {
+    const res = await api.post<StockTransfer & { _id?: string }>('/transfers', { ...transfer, status: 'draft' });
+    return { ...res, data: mapTransfer(res.data) };
+  },
+  update: async (id: string, transfer: Partial<StockTransfer>) => {
+    const res = await api.put<StockTransfer & { _id?: string }>(`/transfers/${id}`, transfer);
+    return { ...res, data: mapTransfer(res.data) };
+  },
+  delete: (id: string) => api.delete(`/transfers/${id}`),
+  cancel: async (id: string) => {
+    const res = await api.patch<StockTransfer & { _id?: string }>(`/transfers/${id}/status`, {
+      status: 'cancelled',
+    });
+    return { ...res, data: mapTransfer(res.data) };
+  },
+  // The server takes the units out of the source location; they stay in
+  // transit until the destination receives them
+  dispatch: async (transfer: StockTransfer) => {
+    if (transfer.status !== 'draft') {
+      throw new Error(`Transfer #${transfer.id.slice(-8)} has already been dispatched`);
+    }
+    const [{ data: products }, { data: locations }] = await Promise.all([
+      productApi.getAll(),
+      locationApi.getAll(),
+    ]);
+    const moving = transfer.lines.map(line => {
+      const product = products.find(p => p.id === line.productId);
+      if (!product) throw new Error(`Product ${line.productId} no longer exists`);
+      const available = stockAt(product, locations, transfer.fromLocationId);
+      if (available < line.quantity) throw new InsufficientStockError({ name: product.name, stock: available });
+      return product;
+    });
+
+    const res = await api.post<StockTransfer & { _id?: string }>(`/transfers/${transfer.id}/dispatch`);
+    const recorded = await Promise.all(moving.map((product, index) =>
+      stockMovementApi.recordChange(product, product.stock - transfer.lines[index].quantity, {
+        source: 'transfer',
+        user: getCurrentUser(),
+        reason: `Dispatched on transfer #${transfer.id.slice(-8)}`,
+        referenceId: transfer.id,
+        locationId: transfer.fromLocationId,
+      })
+    ));
+
+    return { ...res, data: mapTransfer(res.data), unrecorded: unrecordedProducts(moving, recorded) };
+  },
+  receive: async (transfer: StockTransfer) => {
+    if (transfer.status !== 'in-transit') {
+      throw new Error(`Transfer #${transfer.id.slice(-8)} is not in transit`);
+    }
+    const res = await api.post<StockTransfer & { _id?: string }>(`/transfers/${transfer.id}/receive`);
+
+    const received = await Promise.all(transfer.lines.map(line => productApi.getById(line.productId)));
+    const recorded = await Promise.all(received.map(({ data: product }, index) =>
+      stockMovementApi.recordChange(
+        { ...product, stock: product.stock - transfer.lines[index].quantity },
+        product.stock,
+        {
+          source: 'transfer',
+          user: getCurrentUser(),
+          reason: `Received on transfer #${transfer.id.slice(-8)}`,
+          referenceId: transfer.id,
+          locationId: transfer.toLocationId,
+        }
+      )
+    ));
+
+    return {
+      ...res,
+      data: mapTransfer(res.data),
+      unrecorded: unrecordedProducts(received.map(({ data }) => data), recorded),
+    };
+  },
+};
+
+// Serial number API calls. Units are created by goods receipts and moved by
+// orders, cancellations and returns, which record each step in their history
+export const serialApi = {
+  getAll: async (params?: { productId?: string; status?: SerialStatus }) => {
+    const res = await api.get<(SerialUnit & { _id?: string })[]>('/serials', { params });
+    return { ...res, data: res.data.map(mapSerial) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<SerialUnit & { _id?: string }>(`/serials/${id}`);
+    return { ...res, data: mapSerial(res.data) };
+  },
+};
+
+// Stocktake API calls
+export const stocktakeApi = {
+  getAll: async () => {
+    const res = await api.get<(Stocktake & { _id?: string })[]>('/stocktakes');
+    return { ...res, data: res.data.map(mapStocktake) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<Stocktake & { _id?: string }>(`/stocktakes/${id}`);
+    return { ...res, data: mapStocktake(res.data) };
+  },
+  // Snapshot the expected stock and unit cost of the products being counted,
+  // at the location being counted once locations exist
+  start: async (name: string, products: Product[], options: StocktakeOptions = {}) => {
+    const { locations = [], locationId, suppliers = [] } = options;
+    if (locations.length > 0 && !locationId) {
+      throw new Error('Choose the location to count');
+    }
+    const lines: StocktakeLine[] = products.filter(isCountable).map(product => ({
+      productId: product.id,
+      productName: product.name,
+      expectedQuantity: locationId ? stockAt(product, locations, locationId) : product.stock,
+      countedQuantity: null,
+      unitCost: unitCost(product, suppliers),
+      approved: true,
+    }));
+    const res = await api.post<Stocktake & { _id?: string }>('/stocktakes', {
+      name,
+      status: 'counting',
+      locationId: locationId || null,
+      lines,
+    });
+    return { ...res, data: mapStocktake(res.data) };
+  },
+  saveLines: async (id: string, lines: StocktakeLine[]) => {
+    const res = await api.patch<Stocktake & { _id?: string }>(`/stocktakes/${id}`, { lines });
+    return { ...res, data: mapStocktake(res.data) };
+  },
+  cancel: async (id: string) => {
+    const res = await api.patch<Stocktake & { _id?: string }>(`/stocktakes/${id}`, { status: 'cancelled' });
+    return { ...res, data: mapStocktake(res.data) };
+  },
+  // Approved variances are applied as relative changes in one batch, so sales
+  // made while counting are not undone. The server applies them and writes
+  // their stock history in the same request, so a failure leaves nothing
+  // half-posted; the session is re-read first so a retry after a lost
+  // response cannot post the same count twice.
+  post: async (stocktake: Stocktake) => {
+    const { data: current } = await stocktakeApi.getById(stocktake.id);
+    if (current.status !== 'counting') {
+      throw new Error(`Stocktake ${stocktake.name} has already been ${current.status}`);
+    }
+    const adjustments = stocktake.lines
+      .filter(line => line.approved && stocktakeVariance(line))
+      .map(line => ({ productId: line.productId, delta: stocktakeVariance(line)! }));
+
+    const res = await api.post<Stocktake & { _id?: string }>(`/stocktakes/${stocktake.id}/post`, {
+      lines: stocktake.lines,
+      adjustments,
+      locationId: stocktake.locationId || undefined,
+      movement: {
+        source: 'stocktake',
+        user: getCurrentUser(),
+        reason: `Counted in stocktake ${stocktake.name}`,
+        referenceId: stocktake.id,
+      },
+    });
+
+    return { ...res, data: mapStocktake(res.data) };
+  },
+};
+
+// Supplier API calls
+export const supplierApi = {
+  getAll: async () => {
+    const res = await api.get<(Supplier & { _id?: string })[]>('/suppliers');
+    return { ...res, data: res.data.map(mapSupplier) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<Supplier & { _id?: string }>(`/suppliers/${id}`);
+    return { ...res, data: mapSupplier(res.data) };
+  },
+  create: async (supplier: Omit<Supplier, 'id'>) => {
+    const res = await api.post<Supplier & { _id?: string }>('/suppliers', supplier);
+    return { ...res, data: mapSupplier(res.data) };
+  },
+  update: async (id: string, supplier: Partial<Supplier>) => {
+    const res = await api.put<Supplier & { _id?: string }>(`/suppliers/${id}`, supplier);
+    return { ...res, data: mapSupplier(res.data) };
+  },
+  delete: (id: string) => api.delete(`/suppliers/${id}`),
+};
+
+// Purchase order API calls
+export const purchaseOrderApi = {
+  getAll: async () => {
+    const res = await api.get<(PurchaseOrder & { _id?: string })[]>('/purchase-orders');
+    return { ...res, data: res.data.map(mapPurchaseOrder) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<PurchaseOrder & { _id?: string }>(`/purchase-orders/${id}`);
+    return { ...res, data: mapPurchaseOrder(res.data) };
+  },
+  create: async (purchaseOrder: Omit<PurchaseOrder, 'id' | 'status'>) => {
+    const res = await api.post<PurchaseOrder & { _id?: string }>('/purchase-orders', {
+      ...purchaseOrder,
+      status: 'draft',
+    });
+    return { ...res, data: mapPurchaseOrder(res.data) };
+  },
+  // Only drafts can be edited; once sent the supplier is working from them
+  update: async (id: string, purchaseOrder: Partial<PurchaseOrder>) => {
+    const res = await api.put<PurchaseOrder & { _id?: string }>(`/purchase-orders/${id}`, purchaseOrder);
+    return { ...res, data: mapPurchaseOrder(res.data) };
+  },
+  delete: (id: string) => api.delete(`/purchase-orders/${id}`),
+  markOrdered: async (id: string) => {
+    const res = await api.patch<PurchaseOrder & { _id?: string }>(`/purchase-orders/${id}/status`, {
+      status: 'ordered',
+    });
+    return { ...res, data: mapPurchaseOrder(res.data) };
+  },
+  // Anything still outstanding is no longer expected; received units stay in stock
+  cancel: async (id: string) => {
+    const res = await api.patch<PurchaseOrder & { _id?: string }>(`/purchase-orders/${id}/status`, {
+      status: 'cancelled',
+    });
+    return { ...res, data: mapPurchaseOrder(res.data) };
+  },
+  // One draft per supplier, left for review before anything is sent
+  createReorders: async (items: ReorderItem[]) => {
+    const bySupplier = new Map<string, ReorderItem[]>();
+    for (const item of items.filter(item => item.quantity > 0)) {
+      bySupplier.set(item.supplierId, [...(bySupplier.get(item.supplierId) || []), item]);
+    }
+    return Promise.all(Array.from(bySupplier, async ([supplierId, supplierItems]) => {
+      const res = await purchaseOrderApi.create({
+        supplierId,
+        notes: 'Reorder from low stock',
+        lines: supplierItems.map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          quantity: item.quantity,
+          receivedQuantity: 0,
+          unitCost: item.unitCost,
+        })),
+      });
+      return res.data;
+    }));
+  },
+  // The server adds the received units to stock and moves the order to
+  // partially received or received. Order lines are in the supplier's
+  // currency, so their costs are converted before they become cost layers.
+  receive: async (purchaseOrder: PurchaseOrder, receipt: GoodsReceipt) => {
+    const items = receipt.items.filter(item => item.quantity > 0);
+    for (const item of items) {
+      const line = purchaseOrder.lines.find(l => l.productId === item.productId);
+      if (!line) throw new Error(`Product ${item.productId} is not on purchase order ${purchaseOrder.id}`);
+      if (item.quantity > outstandingQuantity(line)) {
+        throw new Error(`Cannot receive more than the ${outstandingQuantity(line)} outstanding units of ${line.productName || item.productId}`);
+      }
+      if (item.serials && item.serials.length !== item.quantity) {
+        throw new Error(`Received ${item.quantity} units of ${line.productName || item.productId} but ${item.serials.length} serial numbers`);
+      }
+    }
+
+    const { data: supplier } = await supplierApi.getById(purchaseOrder.supplierId);
+    const exchangeRate = isBaseCurrency(supplier.currency) ? 1 : receipt.exchangeRate;
+    if (!exchangeRate || exchangeRate <= 0) {
+      throw new Error(`Enter the ${supplier.currency} to ${businessProfile.currency} exchange rate to cost the received stock`);
+    }
+
+    const costs = landedUnitCosts(purchaseOrder, items, receipt.landedCost, exchangeRate);
+    const res = await api.post<PurchaseOrder & { _id?: string }>(`/purchase-orders/${purchaseOrder.id}/receipts`, {
+      items: items.map((item, index) => ({ ...item, unitCost: costs[index] })),
+      landedCost: receipt.landedCost,
+      exchangeRate,
+      locationId: receipt.locationId,
+      note: receipt.note,
+    });
+
+    const received = await Promise.all(items.map(item => productApi.getById(item.productId)));
+    const recorded = await Promise.all(received.map(({ data: product }, index) =>
+      stockMovementApi.recordChange(
+        { ...product, stock: product.stock - items[index].quantity },
+        product.stock,
+        {
+          source: 'purchase-order',
+          user: getCurrentUser(),
+          reason: serialsNote(
+            lotsNote(
+              receipt.note
+                ? `Received on PO #${purchaseOrder.id.slice(-8)}: ${receipt.note}`
+                : `Received on PO #${purchaseOrder.id.slice(-8)}`,
+              items[index].lotNumber ? [{ lotNumber: items[index].lotNumber!, quantity: items[index].quantity }] : undefined
+            ),
+            items[index].serials
+          ),
+          referenceId: purchaseOrder.id,
+          locationId: receipt.locationId,
+        }
+      )
+    ));
+
+    return {
+      ...res,
+      data: mapPurchaseOrder(res.data),
+      unrecorded: unrecordedProducts(received.map(({ data }) => data), recorded),
+    };
+  },
+};
+
+// Customer API calls
+export const customerApi = {
+  getAll: async () => {
+    const res = await api.get<(Customer & { _id?: string })[]>('/customers');
+    return { ...res, data: res.data.map(mapCustomer) };
+  },
+  getById: async (id: string) => {
+    const res = await api.get<Customer & { _id?: string }>(`/customers/${id}`);
+    return { ...res, data: mapCustomer(res.data) };
+  },
+  create: async (customer: Omit<Customer, 'id'>) => {
+    const res = await api.post<Customer & { _id?: string }>('/customers', customer);
+    return { ...res, data: mapCustomer(res.data) };
+  },
+  update: async (id: string, customer: Partial<Customer>) => {
+    const res = await api.put<Customer & { _id?: string }>(`/customers/${id}`, customer);
+    return { ...res, data: mapCustomer(res.data) };
+  },
+  delete: (id: string) => api.delete(`/customers/${id}`),
+};
+
+// Customer return (RMA) API calls
+export const returnApi = {
+  getAll: async (params?: { orderId?: string }) => {
+    const res = await api.get<(CustomerReturn & { _id?: string })[]>('/returns', { params });
+    return { ...res, data: res.data.map(mapReturn) };
+  },
+  // Refunds are priced from the original order lines, never from current product prices
+  create: async (
+    order: OrderWithProducts,
+    request: {
+      reason: string;
+      items: { productId: string; quantity: number; disposition: ReturnDisposition; serials?: string[] }[];
+    }
+  ) => {
+    // Check against the latest order and its earlier returns, not the caller's
+    // copy, so a stale screen or a second return cannot restock units twice
+    const [{ data: current }, { data: previousReturns }] = await Promise.all([
+      orderApi.getById(order.id),
+      returnApi.getAll({ orderId: order.id }),
+    ]);
+    if (!current.status || !returnableStatuses.includes(current.status)) {
+      throw new ReturnStatusError(current.status);
+    }
+    const returnable = returnableQuantities(current, previousReturns);
+    const serialsLeft = returnableSerials(current, previousReturns);
+
+    const items: ReturnItem[] = request.items
+      .filter(item => item.quantity > 0)
+      .map(item => {
+        const line = current.items.find(orderItem => orderItem.productId === item.productId);
+        if (!line) throw new Error(`Product ${item.productId} is not on order ${order.id}`);
+        const name = line.productName || item.productId;
+        if (item.quantity > (returnable[item.productId] || 0)) {
+          throw new ReturnQuantityError(name, returnable[item.productId] || 0);
+        }
+        const alreadyBack = item.serials?.find(serial => !serialsLeft[item.productId]?.includes(serial));
+        if (alreadyBack) {
+          throw new ReturnQuantityError(name, returnable[item.productId] || 0, alreadyBack);
+        }
+        return { ...item, productName: line.productName, price: line.price };
+      });
+
+    // The server only puts restocked units back on the shelf
+    const restockItems = expandBundles(
+      items.filter(item => item.disposition === 'restock'),
+      (await productApi.getAll()).data
+    );
+
+    const res = await api.post<CustomerReturn & { _id?: string }>('/returns', {
+      orderId: order.id,
+      reason: request.reason,
+      items,
+      stockItems: restockItems,
+      refundAmount: items.reduce((total, item) => total + item.price * item.quantity, 0),
+    });
+
+    const restocked = await Promise.all(restockItems.map(item => productApi.getById(item.productId)));
+    const recorded = await Promise.all(restocked.map(({ data: product }, index) =>
+      stockMovementApi.recordChange(
+        { ...product, stock: product.stock - restockItems[index].quantity },
+        product.stock,
+        {
+          source: 'return',
+          user: getCurrentUser(),
+          reason: request.reason,
+          referenceId: res.data._id || res.data.id,
+          locationId: order.locationId,
+        }
+      )
+    ));
+
+    return {
+      ...res,
+      data: mapReturn(res.data),
+      unrecorded: unrecordedProducts(restocked.map(({ data }) => data), recorded),
+    };
+  },
+};
+
+// Stock movement ledger API calls
+export const stockMovementApi = {
+  getAll: async (params?: { productId?: string }) => {
+    const res = await api.get<(StockMovement & { _id?: string })[]>('/stock-movements', { params });
+    return { ...res, data: res.data.map(mapStockMovement) };
+  },
+  create: async (movement: Omit<StockMovement, 'id' | 'createdAt'>) => {
+    const res = await api.post<StockMovement & { _id?: string }>('/stock-movements', movement);
+    return { ...res, data: mapStockMovement(res.data) };
+  },
+  // Record the change from a product's known level to its new level. The stock
+  // change itself has already been saved, so a failed ledger write resolves to
+  // false for the caller to report rather than failing the change.
+  recordChange: async (
+    product: Pick<Product, 'id' | 'name' | 'stock'>,
+    newStock: number,
+    details: StockMovementDetails
+  ) => {
+    const delta = newStock - product.stock;
+    if (delta === 0) return true;
+    try {
+      await stockMovementApi.create({
+        productId: product.id,
+        productName: product.name,
+        delta,
+        resultingStock: newStock,
+        ...details,
+        user: details.user || undefined,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error recording stock movement:', error);
+      return false;
+    }
+  },
+  // One movement per location whose stock changed; resultingStock stays the
+  // product total after each step
+  recordLocationChanges: async (
+    product: Pick<Product, 'id' | 'name' | 'stock'>,
+    before: LocationStock[],
+    after: LocationStock[],
+    details: Omit<StockMovementDetails, 'locationId'>
+  ) => {
+    let total = product.stock;
+    let recorded = true;
+    for (const entry of after) {
+      const delta = entry.stock - (before.find(e => e.locationId === entry.locationId)?.stock || 0);
+      recorded = await stockMovementApi.recordChange({ ...product, stock: total }, total + delta, {
+        ...details,
+        locationId: entry.locationId,
+      }) && recorded;
+      total += delta;
+    }
+    return recorded;
+  },
 };
 
 // Dashboard API calls
 export const dashboardApi = {
-  getStats: async () => {
-    const [productsRes, ordersRes] = await Promise.all([
+  getStats: async (range?: DateRangeFilter) => {
+    const [productsRes, ordersRes, categoriesRes, suppliersRes] = await Promise.all([
       productApi.getAll(),
       orderApi.getAll(),
+      // Categories only group the rollups, so the dashboard loads without them
+      categoryApi.getAll().catch(error => {
+        console.error('Error fetching categories:', error);
+        return { data: [] as Category[] };
+      }),
+      // Without suppliers, products costed only by their supplier are valued at zero
+      supplierApi.getAll().catch(error => {
+        console.error('Error fetching suppliers:', error);
+        return { data: [] as Supplier[] };
+      }),
     ]);
     
     const products = productsRes.data;
-    const orders = ordersRes.data;
+    const allOrders = ordersRes.data;
+    const orders = range ? allOrders.filter(order => isWithinRange(order, range)) : allOrders;
     
-    const lowStockProducts = products.filter(p => p.stock <= p.lowStockThreshold);
+    const lowStockProducts = products.filter(isLowStock);
+    const expiringSoon = expiringLots(products);
+    const inventoryValue = valuationTotals(inventoryValuation(products, 'average', suppliersRes.data));
     
     return {
       totalProducts: products.length,
       totalOrders: orders.length,
+      totalRevenue: orders
+        .filter(countsAsSale)
+        .reduce((total, order) => total + (typeof order.totalPrice === 'number' ? order.totalPrice : 0), 0),
       lowStockCount: lowStockProducts.length,
-      recentOrders: orders.slice(0, 5),
+      orders,
+      // Newest first; orders without a timestamp sort last
+      recentOrders: [...orders]
+        .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''))
+        .slice(0, 5),
+      topProducts: computeTopProducts(orders),
       lowStockProducts,
+      expiringSoon,
+      inventoryValue,
+      categoryRollups: computeCategoryRollups(categoriesRes.data, products, orders),
+      // Trends always compare against the calendar, independent of the selected range
+      revenueTrend: {
+        monthOverMonth: computeRevenueTrend(allOrders, 'month'),
+        weekOverWeek: computeRevenueTrend(allOrders, 'week'),
+      },
     };
   },
 };